@@ -0,0 +1,154 @@
+/**
+ * Compares SearchEngine query latency with the linear scan it replaced.
+ *
+ *   npm run bench:search -- [--projects 4] [--chunks 1000] [--queries 20]
+ *
+ * The corpus is synthetic and seeded, so runs are comparable across machines.
+ */
+import { DocumentChunk } from '../services/document-processor.js';
+import { SearchEngine } from '../services/search-engine.js';
+import { editDistance } from '../services/fuzzy-index.js';
+import { createEmbeddingProvider } from '../services/embeddings.js';
+
+const argument = (name: string, fallback: number) => {
+    const index = process.argv.indexOf(`--${name}`);
+    return index === -1 ? fallback : Number(process.argv[index + 1]);
+};
+
+const PROJECTS = argument('projects', 4);
+const CHUNKS_PER_PROJECT = argument('chunks', 1000);
+const QUERIES = argument('queries', 20);
+const WORDS_PER_CHUNK = 120;
+const VOCABULARY_SIZE = 5000;
+
+// mulberry32: small seeded PRNG
+let seed = 0x5eed;
+const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+
+const SYLLABLES = ['ka', 'lo', 'mi', 'ne', 'ru', 'sa', 'ti', 'vo', 'ze', 'pra', 'dex', 'lin', 'gor', 'tum', 'bel', 'qua'];
+const vocabulary = Array.from({ length: VOCABULARY_SIZE }, () =>
+    Array.from({ length: 2 + Math.floor(random() * 3) }, () => pick(SYLLABLES)).join(''));
+// Zipf-like skew so some terms are common and most are rare
+const word = () => vocabulary[Math.floor(VOCABULARY_SIZE * Math.pow(random(), 3))];
+
+const corpus = new Map<string, DocumentChunk[]>();
+for (let p = 0; p < PROJECTS; p++) {
+    const projectId = `group/project-${p}`;
+    corpus.set(projectId, Array.from({ length: CHUNKS_PER_PROJECT }, (_, c) => ({
+        id: `${projectId}:${c}`,
+        projectId,
+        filePath: `docs/file-${Math.floor(c / 10)}.md`,
+        content: Array.from({ length: WORDS_PER_CHUNK }, word).join(' '),
+        metadata: { title: `${word()} ${word()}`, type: 'markdown' as const },
+    })));
+}
+
+const typo = (term: string) => {
+    const i = Math.floor(random() * term.length);
+    return term.slice(0, i) + term.slice(i + 1);
+};
+const queries = Array.from({ length: QUERIES }, (_, i) => {
+    const terms = Array.from({ length: 2 + (i % 2) }, word);
+    // Every fourth query has a misspelled term to exercise fuzzy matching
+    if (i % 4 === 3) terms[0] = typo(terms[0]);
+    return terms.join(' ');
+});
+
+const BASELINE_STOP_WORDS = new Set([
+    'the', 'is', 'at', 'of', 'on', 'and', 'a', 'an', 'in', 'to', 'for', 'with', 'by', 'about', 'as',
+    'this', 'that', 'these', 'those', 'are', 'was', 'were', 'be', 'been', 'being',
+    'have', 'has', 'had', 'do', 'does', 'did', 'but', 'if', 'or', 'because', 'until', 'while',
+    'function', 'class', 'const', 'var', 'let', 'return', 'import', 'export', 'default',
+]);
+
+/**
+ * The previous implementation: every query scans every chunk's content, with
+ * a tokenize + Levenshtein pass for chunks lacking an exact match.
+ */
+class LinearScanBaseline {
+    constructor(private index: Map<string, DocumentChunk[]>) {}
+
+
+    private tokenize(text: string): string[] {
+        return text.split(/[^a-zA-Z0-9]+/)
+            .flatMap(token => token.replace(/([a-z])([A-Z])/g, '$1 $2').split(' '))
+            .map(part => part.toLowerCase())
+            .filter(part => part.length > 2 && !BASELINE_STOP_WORDS.has(part));
+    }
+
+    search(query: string, limit: number) {
+        const allChunks = Array.from(this.index.values()).flat();
+        const queryTerms = this.tokenize(query);
+        const avgDocLength = allChunks.reduce((sum, chunk) => sum + chunk.content.length, 0) / allChunks.length;
+
+        const idf: Record<string, number> = {};
+        for (const term of queryTerms) {
+            const docCount = allChunks.filter(chunk => chunk.content.toLowerCase().includes(term)).length;
+            idf[term] = Math.log(1 + (allChunks.length - docCount + 0.5) / (docCount + 0.5));
+        }
+
+        return allChunks.map(chunk => {
+            let score = 0;
+            const contentLower = chunk.content.toLowerCase();
+            for (const term of queryTerms) {
+                let termFreq = contentLower.match(new RegExp(term, 'gi'))?.length ?? 0;
+                if (termFreq === 0) {
+                    for (const token of this.tokenize(chunk.content)) {
+                        if (editDistance(term, token) <= 2) termFreq++;
+                    }
+                }
+                if (termFreq > 0) {
+                    score += idf[term] * termFreq * 2.2 / (termFreq + 1.2 * (0.25 + 0.75 * chunk.content.length / avgDocLength));
+                }
+            }
+            return { chunk, score };
+        }).filter(result => result.score > 0).sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+}
+
+const time = async (fn: () => unknown) => {
+    const start = process.hrtime.bigint();
+    await fn();
+    return Number(process.hrtime.bigint() - start) / 1e6;
+};
+
+// No persistence, but the configured embedding provider (local by default),
+// so hybrid queries are measured as they run in production
+const engine = new SearchEngine(null, createEmbeddingProvider());
+const buildMs = await time(async () => {
+    for (const [projectId, chunks] of corpus) await engine.indexProject(projectId, chunks);
+});
+
+const baseline = new LinearScanBaseline(corpus);
+// Warm up both paths (JIT, lazily built vocabulary)
+await engine.search(undefined, queries[0], 10);
+baseline.search(queries[0], 10);
+
+const indexedMs: number[] = [];
+const baselineMs: number[] = [];
+for (const query of queries) {
+    indexedMs.push(await time(() => engine.search(undefined, query, 10)));
+    baselineMs.push(await time(() => baseline.search(query, 10)));
+}
+
+const summary = (samples: number[]) => {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const mean = samples.reduce((sum, ms) => sum + ms, 0) / samples.length;
+    return { mean, p50: sorted[Math.floor(sorted.length / 2)], max: sorted[sorted.length - 1] };
+};
+const indexed = summary(indexedMs);
+const scan = summary(baselineMs);
+const format = (ms: number) => `${ms.toFixed(2)} ms`.padStart(12);
+
+console.log(`Corpus: ${PROJECTS} projects x ${CHUNKS_PER_PROJECT} chunks x ${WORDS_PER_CHUNK} words, ${QUERIES} queries`);
+console.log(`Index build: ${buildMs.toFixed(0)} ms`);
+console.log(`${'strategy'.padEnd(16)}${'mean'.padStart(12)}${'p50'.padStart(12)}${'max'.padStart(12)}`);
+console.log(`${'linear scan'.padEnd(16)}${format(scan.mean)}${format(scan.p50)}${format(scan.max)}`);
+console.log(`${'inverted index'.padEnd(16)}${format(indexed.mean)}${format(indexed.p50)}${format(indexed.max)}`);
+console.log(`Speedup (mean): ${(scan.mean / indexed.mean).toFixed(1)}x`);
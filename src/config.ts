@@ -1,10 +1,43 @@
 import dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as jsYaml from 'js-yaml';
 import { z } from 'zod';
 
 dotenv.config();
 
 const envSchema = z.object({
     PORT: z.string().default('3000'),
+    // Separate listener for /readyz and /metrics, whose details name upstream URLs and project paths
+    OPS_PORT: z.string().optional(),
+    OPS_HOST: z.string().default('127.0.0.1'),
+
+    // HTTP transport sessions
+    MCP_STATELESS: z.stringbool().default(false), // One-shot JSON responses, no sessions or notifications
+    MCP_SESSION_IDLE_TIMEOUT_MS: z.coerce.number().int().min(0).default(30 * 60 * 1000), // 0 keeps idle sessions forever
+    MCP_EVENT_HISTORY: z.coerce.number().int().min(0).default(1000), // Events kept per session for resumption, 0 disables it
+
+    // Authentication of the HTTP endpoint: none, static bearer tokens from the
+    // credentials file, or OAuth 2.1 access tokens checked by introspection
+    MCP_AUTH: z.enum(['none', 'token', 'oauth']).default('none'),
+    MCP_PUBLIC_URL: z.string().optional(), // Externally visible base URL, defaults to http://localhost:PORT
+    MCP_OAUTH_ISSUER: z.string().optional(), // Authorization server advertised to clients
+    MCP_OAUTH_INTROSPECTION_URL: z.string().optional(), // RFC 7662 token introspection endpoint
+    MCP_OAUTH_CLIENT_ID: z.string().optional(), // Credentials of this server at the introspection endpoint
+    MCP_OAUTH_CLIENT_SECRET: z.string().optional(),
+    MCP_OAUTH_USER_CLAIM: z.string().default('sub'), // Introspection field holding the user ID
+    MCP_OAUTH_REQUIRED_SCOPES: z.string().optional(), // Comma-separated
+
+    // Per-user upstream credentials (YAML/JSON), used when MCP_AUTH is enabled
+    PM7_CREDENTIALS_FILE: z.string().optional(),
+    PM7_SHARED_CREDENTIALS_FALLBACK: z.stringbool().default(false), // Use the server's credentials when a user has none
+
+    // Optional YAML/JSON file with named connections, tool policy and search settings
+    PM7_CONFIG_FILE: z.string().optional(),
+
+    // Tool policy overrides (take precedence over the config file)
+    PM7_READ_ONLY: z.stringbool().optional(),
+    PM7_TOOL_ALLOW: z.string().optional(), // Comma-separated tool names or globs
+    PM7_TOOL_DENY: z.string().optional(),
 
     // Figma
     FIGMA_ACCESS_TOKEN: z.string().optional(),
@@ -13,20 +46,262 @@ const envSchema = z.object({
     // Jira
     JIRA_DOMAIN: z.string().optional(),
     JIRA_EMAIL: z.string().optional(),
-    JIRA_API_TOKEN: z.string().optional(),
+    JIRA_API_TOKEN: z.string().optional(), // API token (Cloud) or Personal Access Token (Server/Data Center)
+    JIRA_FLAVOR: z.enum(['cloud', 'server']).default('cloud'),
+    JIRA_API_VERSION: z.enum(['2', '3']).optional(),
+    JIRA_DESCRIPTION_FORMAT: z.enum(['adf', 'wiki', 'plain']).optional(),
 
     // GitLab
     GITLAB_URL: z.string().default('https://gitlab.com'),
     GITLAB_ACCESS_TOKEN: z.string().optional(),
+
+    // Upstream API behaviour
+    API_MAX_RETRIES: z.coerce.number().int().min(0).default(3),
+    API_RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).default(500),
+    API_RETRY_MAX_DELAY_MS: z.coerce.number().int().min(0).default(30000),
+    API_REQUESTS_PER_SECOND: z.coerce.number().min(0).default(10), // Per host, 0 disables throttling
+    API_CACHE_ENABLED: z.stringbool().default(false),
+    API_CACHE_MAX_BYTES: z.coerce.number().int().min(0).default(50 * 1024 * 1024),
+    API_CACHE_DIR: z.string().optional(), // Enables the on-disk cache layer
+    API_MODE: z.enum(['live', 'record', 'replay']).default('live'),
+    API_FIXTURES_DIR: z.string().default('fixtures'),
+
+    // Search index persistence: one file per project plus a manifest
+    SEARCH_INDEX_DIR: z.string().default('.pm7/index'),
+    SEARCH_INDEX_COMPRESS: z.stringbool().default(false), // Gzip project files
+    SEARCH_INDEX_STALE_DAYS: z.coerce.number().min(0).default(7), // Projects not crawled for longer are reported as stale
+    CRAWL_MAX_FILE_BYTES: z.coerce.number().int().min(0).default(1024 * 1024), // Larger files are not indexed, unless the config file says otherwise
+
+    // Embeddings for semantic search, fused with keyword (BM25) results
+    EMBEDDING_PROVIDER: z.enum(['none', 'local', 'http']).default('local'),
+    EMBEDDING_DIMENSIONS: z.coerce.number().int().min(16).default(256), // Local provider only
+    EMBEDDING_URL: z.string().url().optional(), // OpenAI-compatible API base, e.g. http://localhost:11434/v1
+    EMBEDDING_MODEL: z.string().optional(),
+    EMBEDDING_API_KEY: z.string().optional(),
+
+    // Audit log of tool calls (JSONL), rotated by size
+    AUDIT_LOG_ENABLED: z.stringbool().default(true),
+    AUDIT_LOG_FILE: z.string().default('audit.jsonl'),
+    AUDIT_LOG_MAX_BYTES: z.coerce.number().int().min(1024).default(10 * 1024 * 1024),
+    AUDIT_LOG_MAX_FILES: z.coerce.number().int().min(0).default(5), // Rotated files kept besides the current one
 });
 
 export const config = envSchema.parse(process.env);
 
+// Name of the connection built from the GITLAB_* / JIRA_* environment variables
+export const DEFAULT_CONNECTION = 'default';
+
+const connectionName = z.string().regex(/^[a-zA-Z0-9_-]+$/, 'Connection names may only contain letters, digits, "_" and "-"');
+
+const gitlabConnectionSchema = z.object({
+    name: connectionName,
+    url: z.string().default('https://gitlab.com'),
+    token: z.string().optional(),
+});
+
+const jiraConnectionSchema = z.object({
+    name: connectionName,
+    domain: z.string(), // Host (Cloud) or base URL incl. scheme and context path (Server, e.g. https://jira.corp/jira)
+    email: z.string().optional(), // Only used for Cloud basic auth
+    token: z.string().optional(),
+    // Cloud: basic email:token auth, REST v3, ADF descriptions.
+    // Server/Data Center: bearer PAT, REST v2, wiki-markup descriptions.
+    flavor: z.enum(['cloud', 'server']).default('cloud'),
+    apiVersion: z.enum(['2', '3']).optional(),
+    descriptionFormat: z.enum(['adf', 'wiki', 'plain']).optional(),
+});
+
+const policySchema = z.object({
+    readOnly: z.boolean().default(false), // Blocks every tool not annotated as read-only
+    allow: z.array(z.string()).default(['*']), // Tool names or globs
+    deny: z.array(z.string()).default([]), // Wins over allow
+    projects: z.array(z.object({
+        tools: z.array(z.string()), // Tool names or globs the rule applies to
+        allowed: z.array(z.string()), // Project keys/paths (or globs) the tools may act on
+    })).default([]),
+});
+
+const searchSchema = z.object({
+    stemming: z.boolean().default(true), // Conflate plurals ("policies" = "policy")
+    minTermLength: z.number().int().min(1).default(2),
+    // Replace the built-in stop word lists; code chunks use both
+    stopWords: z.object({
+        prose: z.array(z.string()).optional(),
+        code: z.array(z.string()).optional(),
+    }).default({}),
+    // Project path glob ('*' for all projects) -> groups of interchangeable terms or phrases
+    synonyms: z.record(z.string(), z.array(z.array(z.string()).min(2))).default({}),
+});
+
+const crawlRulesSchema = z.object({
+    include: z.array(z.string()).optional(), // Path globs (globs without "/" match file names); replaces the inherited list
+    exclude: z.array(z.string()).default([]), // Added to the inherited list
+    maxFileBytes: z.number().int().min(0).optional(),
+});
+
+const crawlSchema = crawlRulesSchema.extend({
+    exclude: z.array(z.string()).optional(), // Replaces the default exclusions (dependencies, build output, lock files)
+    // Project path glob -> rules applied on top of the global ones
+    projects: z.record(z.string(), crawlRulesSchema).default({}),
+});
+
+const configFileSchema = z.object({
+    gitlab: z.array(gitlabConnectionSchema).default([]),
+    jira: z.array(jiraConnectionSchema).default([]),
+    policy: policySchema.default(policySchema.parse({})),
+    search: searchSchema.default(searchSchema.parse({})),
+    crawl: crawlSchema.default(crawlSchema.parse({})),
+});
+
+const userCredentialsSchema = z.object({
+    id: z.string(),
+    // Bearer tokens accepted on /mcp in token mode, in plain text or as "sha256:<hex digest>"
+    tokens: z.array(z.string()).default([]),
+    admin: z.boolean().default(false), // May clear and rebuild the shared search index flush the API cache and query everyone's audit log entries
+    figma: z.string().optional(),
+    gitlab: z.record(z.string(), z.string()).default({}), // Connection name -> access token
+    jira: z.record(z.string(), z.object({ email: z.string().optional(), token: z.string() })).default({}), // Connection name -> credentials
+});
+
+const credentialsFileSchema = z.object({
+    users: z.array(userCredentialsSchema).default([]),
+});
+
+export type GitLabConnection = z.infer<typeof gitlabConnectionSchema>;
+export type JiraConnection = z.infer<typeof jiraConnectionSchema>;
+export type ToolPolicy = z.infer<typeof policySchema>;
+export type SearchSettings = z.infer<typeof searchSchema>;
+export type CrawlRules = z.infer<typeof crawlRulesSchema>;
+export type UserCredentials = z.infer<typeof userCredentialsSchema>;
+
+/**
+ * Replaces `${VAR}` references so secrets can stay in the environment.
+ */
+const interpolateEnv = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+        return value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] ?? '');
+    }
+    if (Array.isArray(value)) return value.map(interpolateEnv);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolateEnv(item)]));
+    }
+    return value;
+};
+
+const loadConfigFile = <T extends z.ZodType>(filePath: string | undefined, schema: T): z.infer<T> => {
+    if (!filePath) return schema.parse({});
+
+    // YAML is a superset of JSON, so one parser covers both formats
+    const raw = jsYaml.load(fs.readFileSync(filePath, 'utf-8')) ?? {};
+    const result = schema.safeParse(interpolateEnv(raw));
+    if (!result.success) {
+        throw new Error(`Invalid config file ${filePath}: ${z.prettifyError(result.error)}`);
+    }
+    return result.data;
+};
+
+export const fileConfig = loadConfigFile(config.PM7_CONFIG_FILE, configFileSchema);
+
+/**
+ * Upstream credentials of each user of a shared (authenticated) server.
+ */
+export const userCredentials: UserCredentials[] = loadConfigFile(config.PM7_CREDENTIALS_FILE, credentialsFileSchema).users;
+
+const withEnvConnection = <T extends { name: string }>(fromFile: T[], fromEnv: T, envConfigured: boolean): T[] => {
+    const names = new Set<string>();
+    for (const connection of fromFile) {
+        if (names.has(connection.name)) throw new Error(`Duplicate connection name "${connection.name}" in ${config.PM7_CONFIG_FILE}`);
+        names.add(connection.name);
+    }
+    // The env connection comes first (and so is the default) when it has credentials,
+    // and is kept as an unconfigured placeholder when nothing else is defined
+    if (envConfigured && !names.has(fromEnv.name)) return [fromEnv, ...fromFile];
+    return fromFile.length > 0 ? fromFile : [fromEnv];
+};
+
+/**
+ * Named upstream connections. The first entry of each list is used when a
+ * tool call does not name a connection.
+ */
+export const connections = {
+    gitlab: withEnvConnection<GitLabConnection>(
+        fileConfig.gitlab,
+        { name: DEFAULT_CONNECTION, url: config.GITLAB_URL, token: config.GITLAB_ACCESS_TOKEN },
+        !!config.GITLAB_ACCESS_TOKEN
+    ),
+    jira: withEnvConnection<JiraConnection>(
+        fileConfig.jira,
+        {
+            name: DEFAULT_CONNECTION,
+            domain: config.JIRA_DOMAIN || '',
+            email: config.JIRA_EMAIL,
+            token: config.JIRA_API_TOKEN,
+            flavor: config.JIRA_FLAVOR,
+            apiVersion: config.JIRA_API_VERSION,
+            descriptionFormat: config.JIRA_DESCRIPTION_FORMAT,
+        },
+        !!config.JIRA_API_TOKEN
+    ),
+};
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Tool policy from the config file with environment overrides applied.
+ */
+export const policy: ToolPolicy = {
+    ...fileConfig.policy,
+    readOnly: config.PM7_READ_ONLY ?? fileConfig.policy.readOnly,
+    allow: config.PM7_TOOL_ALLOW ? splitList(config.PM7_TOOL_ALLOW) : fileConfig.policy.allow,
+    deny: config.PM7_TOOL_DENY ? splitList(config.PM7_TOOL_DENY) : fileConfig.policy.deny,
+};
+
+/**
+ * Names a connection setting the way the user configures it: an env var for
+ * the default connection, a config file path for named ones.
+ */
+export const settingName = (provider: string, connection: string, envName: string, field: string) =>
+    connection === DEFAULT_CONNECTION ? envName : `${provider}.${connection}.${field}`;
+
+/**
+ * Lists the credential settings a provider (connection) still needs.
+ */
+export const getMissingCredentials = (provider: 'figma' | 'jira' | 'gitlab', connection?: string): string[] => {
+    // Recorded fixtures stand in for the real services
+    if (config.API_MODE === 'replay') return [];
+
+    const missing: string[] = [];
+    if (provider === 'figma') {
+        if (!config.FIGMA_ACCESS_TOKEN) missing.push('FIGMA_ACCESS_TOKEN');
+    } else if (provider === 'gitlab') {
+        const gitlab = connections.gitlab.find(c => c.name === (connection ?? connections.gitlab[0].name));
+        if (gitlab && !gitlab.token) missing.push(settingName('gitlab', gitlab.name, 'GITLAB_ACCESS_TOKEN', 'token'));
+    } else {
+        const jira = connections.jira.find(c => c.name === (connection ?? connections.jira[0].name));
+        if (jira && !jira.domain) missing.push(settingName('jira', jira.name, 'JIRA_DOMAIN', 'domain'));
+        // Server/Data Center authenticates with a bearer PAT alone
+        if (jira && jira.flavor === 'cloud' && !jira.email) missing.push(settingName('jira', jira.name, 'JIRA_EMAIL', 'email'));
+        if (jira && !jira.token) missing.push(settingName('jira', jira.name, 'JIRA_API_TOKEN', 'token'));
+    }
+    return missing;
+};
+
 export const validateConfig = () => {
-    const missing = [];
-    if (!config.FIGMA_ACCESS_TOKEN) missing.push('FIGMA_ACCESS_TOKEN');
-    if (!config.JIRA_API_TOKEN) missing.push('JIRA_API_TOKEN');
-    if (!config.GITLAB_ACCESS_TOKEN) missing.push('GITLAB_ACCESS_TOKEN');
+    if (config.MCP_AUTH === 'oauth' && !config.MCP_OAUTH_INTROSPECTION_URL) {
+        throw new Error('MCP_AUTH=oauth requires MCP_OAUTH_INTROSPECTION_URL.');
+    }
+    if (config.MCP_AUTH === 'token' && !userCredentials.some(user => user.tokens.length > 0)) {
+        throw new Error('MCP_AUTH=token requires PM7_CREDENTIALS_FILE with at least one user token.');
+    }
+    if (config.EMBEDDING_PROVIDER === 'http' && (!config.EMBEDDING_URL || !config.EMBEDDING_MODEL)) {
+        throw new Error('EMBEDDING_PROVIDER=http requires EMBEDDING_URL and EMBEDDING_MODEL.');
+    }
+
+    const missing = [
+        ...getMissingCredentials('figma'),
+        ...connections.jira.flatMap(c => getMissingCredentials('jira', c.name)),
+        ...connections.gitlab.flatMap(c => getMissingCredentials('gitlab', c.name)),
+    ];
 
     if (missing.length > 0) {
         console.warn(`Missing optional configuration for: ${missing.join(', ')}. Related tools may not work.`);
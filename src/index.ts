@@ -1,27 +1,84 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import express from 'express';
-import { config, validateConfig } from './config.js';
+import { config, policy, validateConfig } from './config.js';
 import { registerFigmaTools } from './integrations/figma.js';
 import { registerJiraTools } from './integrations/jira.js';
 import { registerGitLabTools } from './integrations/gitlab.js';
 import { registerWebCrawler } from './integrations/web-crawler.js';
+import { registerCacheTools } from './integrations/cache.js';
+import { registerConnectionTools } from './integrations/connections.js';
+import { registerAuditTools } from './integrations/audit.js';
+import { applyToolPolicy } from './services/tool-policy.js';
+import { instrumentTools } from './services/tool-metrics.js';
+import { auditLog, auditTools } from './services/audit-log.js';
+import { SessionManager } from './services/session-manager.js';
+import { createAuthMiddleware } from './services/auth.js';
+import { checkReadiness } from './services/health.js';
+import { registry } from './utils/metrics.js';
+import { resourceManager } from './services/resource-manager.js';
 
-async function main() {
-    // Validate configuration on startup
-    validateConfig();
+/**
+ * Health and metrics endpoints for the orchestrator. Readiness details and
+ * metrics name upstream URLs, errors and project paths, so they are only
+ * served where `detailed` is set; elsewhere /readyz reports statuses only.
+ */
+function operationalRoutes(detailed: boolean): express.Router {
+    const router = express.Router();
+
+    router.get('/healthz', (_req, res) => {
+        res.json({ status: 'ok' });
+    });
+
+    router.get('/readyz', async (_req, res) => {
+        const report = await checkReadiness();
+        const checks = detailed ? report.checks : report.checks.map(({ name, status }) => ({ name, status }));
+        res.status(report.ready ? 200 : 503).json({ ...report, checks });
+    });
 
-    // Create MCP Server
+    if (detailed) {
+        router.get('/metrics', (_req, res) => {
+            res.type('text/plain; version=0.0.4').send(registry.render());
+        });
+    }
+    return router;
+}
+
+/**
+ * Builds an MCP server with every integration registered. The HTTP transport
+ * creates one per session (or per request in stateless mode).
+ */
+function createServer(): McpServer {
     const server = new McpServer({
         name: 'pm7-mcp-server',
         version: '1.0.0',
     });
 
+    // Count, time and audit every tool call, then enforce read-only mode,
+    // allow/deny lists and project restrictions on every tool registered below
+    instrumentTools(server);
+    if (config.AUDIT_LOG_ENABLED) auditTools(server, auditLog);
+    applyToolPolicy(server, policy);
+
     // Register tools from integrations
     registerFigmaTools(server);
     registerJiraTools(server);
     registerGitLabTools(server);
     registerWebCrawler(server);
+    registerCacheTools(server);
+    registerConnectionTools(server);
+    registerAuditTools(server);
+
+    // Crawls register resources for all sessions, so every connected client is told
+    const unsubscribe = resourceManager.onListChanged(() => server.sendResourceListChanged());
+    server.server.onclose = unsubscribe;
+
+    return server;
+}
+
+async function main() {
+    // Validate configuration on startup
+    validateConfig();
 
     // Check for stdio flag
     const isStdio = process.argv.includes('--stdio');
@@ -29,31 +86,65 @@ async function main() {
     if (isStdio) {
         const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
         const transport = new StdioServerTransport();
-        await server.connect(transport);
+        await createServer().connect(transport);
         console.error('PM7 MCP Server running on stdio');
     } else {
         // Set up Express server with Streamable HTTP transport
         const app = express();
         app.use(express.json());
 
-        app.post('/mcp', async (req, res) => {
-            const transport = new StreamableHTTPServerTransport({
-                sessionIdGenerator: undefined,
-                enableJsonResponse: true
+        // Operational endpoints are not behind MCP auth. With OPS_PORT the
+        // detailed ones move there; otherwise they are public only while /mcp is too.
+        app.use(operationalRoutes(!config.OPS_PORT && config.MCP_AUTH === 'none'));
+        if (config.OPS_PORT) {
+            const ops = express();
+            ops.use(operationalRoutes(true));
+            ops.listen(Number(config.OPS_PORT), config.OPS_HOST, () => {
+                console.error(`Health and metrics endpoints on http://${config.OPS_HOST}:${config.OPS_PORT}`);
             });
+        } else if (config.MCP_AUTH !== 'none') {
+            console.error('Set OPS_PORT to serve /metrics and readiness details; they are not exposed next to an authenticated /mcp');
+        }
+
+        // Bearer token / OAuth check for /mcp (empty when MCP_AUTH=none)
+        const auth = createAuthMiddleware(app);
 
-            res.on('close', () => {
-                transport.close();
+        if (config.MCP_STATELESS) {
+            // Every POST is a self-contained request with a JSON response
+            app.post('/mcp', ...auth, async (req, res) => {
+                const server = createServer();
+                const transport = new StreamableHTTPServerTransport({
+                    sessionIdGenerator: undefined,
+                    enableJsonResponse: true
+                });
+
+                res.on('close', () => {
+                    server.close();
+                });
+
+                await server.connect(transport);
+                await transport.handleRequest(req, res, req.body);
+            });
+        } else {
+            const sessions = new SessionManager(createServer, {
+                idleTimeoutMs: config.MCP_SESSION_IDLE_TIMEOUT_MS,
+                eventHistory: config.MCP_EVENT_HISTORY,
             });
 
-            await server.connect(transport);
-            await transport.handleRequest(req, res, req.body);
-        });
+            app.post('/mcp', ...auth, (req, res) => sessions.handlePost(req, res));
+            app.get('/mcp', ...auth, (req, res) => sessions.handleSessionRequest(req, res));
+            app.delete('/mcp', ...auth, (req, res) => sessions.handleSessionRequest(req, res));
+
+            process.on('SIGINT', async () => {
+                await sessions.closeAll();
+                process.exit(0);
+            });
+        }
 
         const PORT = config.PORT;
         app.listen(PORT, () => {
             console.error(`PM7 MCP Server running on http://localhost:${PORT}`);
-            console.error(`MCP Endpoint: http://localhost:${PORT}/mcp`);
+            console.error(`MCP Endpoint: http://localhost:${PORT}/mcp (${config.MCP_STATELESS ? 'stateless' : 'sessions'}, auth: ${config.MCP_AUTH})`);
         });
     }
 }
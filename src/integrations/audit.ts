@@ -0,0 +1,61 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { config } from '../config.js';
+import { auditLog, AuditEntry } from '../services/audit-log.js';
+import { isAdmin, userIdOf } from '../services/credentials.js';
+import { toolHandler } from '../utils/tool-handler.js';
+
+const formatEntry = (entry: AuditEntry) => {
+    const who = [entry.userId && `user ${entry.userId}`, entry.sessionId && `session ${entry.sessionId}`].filter(Boolean).join(', ') || 'local';
+    const objects = entry.objects.map(o => `${o.type} ${o.connection ? `${o.connection}:` : ''}${o.id}`).join(', ');
+    return `- ${entry.timestamp} ${entry.tool} (${entry.outcome}, ${entry.durationMs}ms) by ${who}
+  args: ${JSON.stringify(entry.args)}${objects ? `\n  objects: ${objects}` : ''}${entry.error ? `\n  error: ${entry.error}` : ''}`;
+};
+
+export function registerAuditTools(server: McpServer) {
+    server.registerTool(
+        'query-audit-log',
+        {
+            description: 'Show recent tool calls from the audit log, most recent first: who called which tool with which arguments, the outcome and the Jira/GitLab/Figma objects involved. Authenticated users who are not administrators only see their own calls.',
+            annotations: { readOnlyHint: true },
+            inputSchema: {
+                tool: z.string().optional().describe('Only calls of this tool'),
+                userId: z.string().optional().describe('Only calls by this user'),
+                sessionId: z.string().optional().describe('Only calls from this MCP session'),
+                outcome: z.enum(['success', 'error']).optional(),
+                since: z.iso.datetime({ offset: true }).optional().describe('Only calls at or after this ISO 8601 timestamp'),
+                limit: z.number().int().min(1).max(500).optional().default(50).describe('Maximum number of entries to return'),
+            },
+        },
+        toolHandler({ action: 'querying audit log' }, async ({ tool, userId, sessionId, outcome, since, limit }, { authInfo }) => {
+            if (!config.AUDIT_LOG_ENABLED) {
+                return {
+                    content: [{ type: 'text' as const, text: 'The audit log is disabled. Set AUDIT_LOG_ENABLED=true to enable it.' }],
+                };
+            }
+
+            // Without authentication everyone with access to the server is trusted
+            const caller = userIdOf(authInfo);
+            if (caller !== undefined && !isAdmin(authInfo)) {
+                if (userId && userId !== caller) {
+                    return {
+                        content: [{ type: 'text' as const, text: `Only administrators (admin: true in ${config.PM7_CREDENTIALS_FILE ?? 'PM7_CREDENTIALS_FILE'}) may query other users' calls.` }],
+                        isError: true,
+                    };
+                }
+                userId = caller;
+            }
+
+            const entries = auditLog.query({ tool, userId, sessionId, outcome, since: since ? new Date(since) : undefined, limit });
+            if (entries.length === 0) {
+                return {
+                    content: [{ type: 'text' as const, text: 'No matching audit log entries.' }],
+                };
+            }
+
+            return {
+                content: [{ type: 'text' as const, text: `${entries.length} audit log entries (most recent first):\n${entries.map(formatEntry).join('\n')}` }],
+            };
+        })
+    );
+}
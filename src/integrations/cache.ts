@@ -0,0 +1,58 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { config } from '../config.js';
+import { httpCache } from '../utils/http-cache.js';
+import { toolHandler } from '../utils/tool-handler.js';
+import { assertAdmin, isAdmin } from '../services/credentials.js';
+
+export function registerCacheTools(server: McpServer) {
+    server.registerTool(
+        'manage-api-cache',
+        {
+            description: 'Show or flush the upstream API response cache (Figma, Jira, GitLab). Use "stats" to see cache usage and the cached endpoints, or "flush" to force fresh data on the next call. The cache is shared, so only administrators see the endpoints and may flush it.',
+            annotations: { readOnlyHint: false, destructiveHint: true }, // Flushes the local cache, see LOCAL_STATE_TOOLS
+            inputSchema: {
+                action: z.enum(['stats', 'flush']).default('stats').describe('What to do with the cache'),
+                provider: z.enum(['gitlab', 'jira', 'figma']).optional().describe('Limit a flush to one provider'),
+            },
+        },
+        toolHandler({ action: 'managing API cache' }, async ({ action, provider }, { authInfo }) => {
+            if (!config.API_CACHE_ENABLED) {
+                return {
+                    content: [{ type: 'text' as const, text: 'API response cache is disabled. Set API_CACHE_ENABLED=true to enable it.' }],
+                };
+            }
+
+            // Cached URLs name projects, issues and files of every user
+            const admin = isAdmin(authInfo);
+            if (action === 'flush') {
+                assertAdmin(authInfo, 'flush the API cache', 'the cache');
+                const removed = httpCache.clear(provider);
+                return {
+                    content: [{ type: 'text' as const, text: `Flushed ${removed} cached responses${provider ? ` for ${provider}` : ''}.` }],
+                };
+            }
+
+            const stats = httpCache.stats();
+            const now = Date.now();
+            const entries = !admin ? '(only shown to administrators)' : httpCache.list().reverse().slice(0, 50).map(entry => {
+                const age = Math.round((now - entry.storedAt) / 1000);
+                const state = entry.expiresAt > now ? 'fresh' : 'stale';
+                return `- [${entry.provider ?? 'unknown'}] ${entry.url.split('?')[0]} (${state}, ${age}s old, ${Buffer.byteLength(entry.body)} bytes)`;
+            }).join('\n');
+
+            const text = `API Cache:
+Entries: ${stats.entries}
+Size: ${stats.bytes} / ${stats.maxBytes} bytes
+Hits: ${stats.hits}, Misses: ${stats.misses}, Revalidated (304): ${stats.revalidated}
+Disk layer: ${stats.diskDir ?? 'disabled'}
+
+Most recently used entries:
+${entries || '(none)'}`;
+
+            return {
+                content: [{ type: 'text' as const, text }],
+            };
+        })
+    );
+}
@@ -0,0 +1,30 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { connections } from '../config.js';
+import { toolHandler } from '../utils/tool-handler.js';
+import { getCallerMissingCredentials } from '../services/connections.js';
+
+export function registerConnectionTools(server: McpServer) {
+    server.registerTool(
+        'list-connections',
+        {
+            description: 'List the configured GitLab and Jira connections. Pass a connection name as the "connection" argument of GitLab/Jira tools to target a specific instance or site; the first connection of each kind is the default.',
+            annotations: { readOnlyHint: true },
+            inputSchema: {},
+        },
+        toolHandler({ action: 'listing connections' }, async (_args, { authInfo }) => {
+            // Status is reported for the caller's own credentials
+            const describe = (provider: 'gitlab' | 'jira', name: string, target: string, index: number) => {
+                const missing = getCallerMissingCredentials(provider, name, authInfo);
+                const status = missing.length > 0 ? `not configured, missing ${missing.join(', ')}` : 'configured';
+                return `- ${name}${index === 0 ? ' (default)' : ''}: ${target} (${status})`;
+            };
+
+            const gitlab = connections.gitlab.map((c, i) => describe('gitlab', c.name, c.url, i)).join('\n');
+            const jira = connections.jira.map((c, i) => describe('jira', c.name, `${c.domain || 'no domain'}, ${c.flavor === 'server' ? 'Server/Data Center' : 'Cloud'}`, i)).join('\n');
+
+            return {
+                content: [{ type: 'text' as const, text: `GitLab connections:\n${gitlab}\n\nJira connections:\n${jira}` }],
+            };
+        })
+    );
+}
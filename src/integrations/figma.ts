@@ -1,60 +1,97 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { config } from '../config.js';
 import { ApiClient } from '../utils/api-client.js';
+import { formatContinuation } from '../utils/tool-results.js';
+import { toolHandler } from '../utils/tool-handler.js';
+import { getFigmaToken } from '../services/connections.js';
+import { userIdOf } from '../services/credentials.js';
 
 export function registerFigmaTools(server: McpServer) {
-    const client = new ApiClient('https://api.figma.com/v1', {
-        'X-Figma-Token': config.FIGMA_ACCESS_TOKEN || '',
-    });
+    const clients = new Map<string, ApiClient>();
+
+    /**
+     * API client acting as the authenticated caller, or with the server's token.
+     */
+    const connect = (authInfo: AuthInfo | undefined): ApiClient => {
+        const key = userIdOf(authInfo) ?? '';
+        let client = clients.get(key);
+        if (!client) {
+            client = new ApiClient('https://api.figma.com/v1', {
+                'X-Figma-Token': getFigmaToken(authInfo) || '',
+            }, {
+                pagination: 'figma',
+                provider: 'figma',
+                cache: [
+                    { pattern: /^\/files\/[^/]+$/, ttlMs: 5 * 60 * 1000 },
+                    { pattern: /^\/teams\/[^/]+\/projects$/, ttlMs: 10 * 60 * 1000 },
+                    { pattern: /^\/files\/[^/]+\/comments$/, ttlMs: 30 * 1000 },
+                ],
+            });
+            clients.set(key, client);
+        }
+        return client;
+    };
 
     server.registerTool(
         'get-figma-file',
         {
             description: 'Get details of a Figma file',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 fileKey: z.string().describe('The key of the Figma file'),
             },
         },
-        async ({ fileKey }) => {
-            if (!config.FIGMA_ACCESS_TOKEN) {
-                return {
-                    content: [{ type: 'text' as const, text: 'Figma access token not configured.' }],
-                    isError: true,
-                };
-            }
-            try {
-                const data = await client.get<any>(`/files/${fileKey}`);
-                return {
-                    content: [{
-                        type: 'text' as const,
-                        text: `File: ${data.name}\nLast Modified: ${data.lastModified}\nThumbnail: ${data.thumbnailUrl}`
-                    }],
-                };
-            } catch (error: any) {
-                return {
-                    content: [{ type: 'text' as const, text: `Error fetching Figma file: ${error.message}` }],
-                    isError: true,
-                };
-            }
-        }
+        toolHandler({ action: 'fetching Figma file', provider: 'figma' }, async ({ fileKey }, { authInfo }) => {
+            const data = await connect(authInfo).get<any>(`/files/${fileKey}`);
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `File: ${data.name}\nLast Modified: ${data.lastModified}\nThumbnail: ${data.thumbnailUrl}`
+                }],
+            };
+        })
     );
 
     server.registerTool(
         'list-figma-projects',
         {
             description: 'List projects in a Figma team',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 teamId: z.string().describe('The ID of the Figma team').optional(),
             },
         },
-        async ({ teamId }) => {
-            if (!config.FIGMA_ACCESS_TOKEN) {
+        toolHandler({ action: 'fetching Figma projects', provider: 'figma' }, async ({ teamId }, { authInfo }) => {
+            const id = teamId || config.FIGMA_TEAM_ID;
+            if (!id) {
                 return {
-                    content: [{ type: 'text' as const, text: 'Figma access token not configured.' }],
+                    content: [{ type: 'text' as const, text: 'Team ID is required either as argument or in configuration.' }],
                     isError: true,
                 };
             }
+
+            const data = await connect(authInfo).get<any>(`/teams/${id}/projects`);
+            const projects = data.projects.map((p: any) => `- ${p.name} (ID: ${p.id})`).join('\n');
+            return {
+                content: [{ type: 'text' as const, text: `Projects in Team ${data.name}:\n${projects}` }],
+            };
+        })
+    );
+
+    server.registerTool(
+        'list-figma-components',
+        {
+            description: 'List the components published to a Figma team library',
+            annotations: { readOnlyHint: true },
+            inputSchema: {
+                teamId: z.string().describe('The ID of the Figma team').optional(),
+                cursor: z.string().optional().describe('Continuation cursor returned by a previous call'),
+                maxItems: z.number().int().min(1).optional().default(50).describe('Maximum number of components to return'),
+            },
+        },
+        toolHandler({ action: 'fetching Figma components', provider: 'figma' }, async ({ teamId, cursor, maxItems }, { authInfo }) => {
             const id = teamId || config.FIGMA_TEAM_ID;
             if (!id) {
                 return {
@@ -63,51 +100,40 @@ export function registerFigmaTools(server: McpServer) {
                 };
             }
 
-            try {
-                const data = await client.get<any>(`/teams/${id}/projects`);
-                const projects = data.projects.map((p: any) => `- ${p.name} (ID: ${p.id})`).join('\n');
-                return {
-                    content: [{ type: 'text' as const, text: `Projects in Team ${data.name}:\n${projects}` }],
-                };
-            } catch (error: any) {
+            const data = await connect(authInfo).collect<any>(`/teams/${id}/components`, {}, { itemsKey: 'meta.components', cursor, maxItems });
+            if (data.items.length === 0) {
                 return {
-                    content: [{ type: 'text' as const, text: `Error fetching Figma projects: ${error.message}` }],
-                    isError: true,
+                    content: [{ type: 'text' as const, text: `No published components in team ${id}.` }],
                 };
             }
-        }
+
+            const components = data.items.map((c: any) =>
+                `- ${c.name} (Key: ${c.key}, File: ${c.file_key}${c.containing_frame?.name ? `, Frame: ${c.containing_frame.name}` : ''})`
+            ).join('\n');
+            return {
+                content: [{ type: 'text' as const, text: `Components in team ${id}:\n${components}${formatContinuation(data)}` }],
+            };
+        })
     );
 
     server.registerTool(
         'get-figma-comments',
         {
             description: 'Get comments from a Figma file',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 fileKey: z.string().describe('The key of the Figma file'),
             },
         },
-        async ({ fileKey }) => {
-            if (!config.FIGMA_ACCESS_TOKEN) {
-                return {
-                    content: [{ type: 'text' as const, text: 'Figma access token not configured.' }],
-                    isError: true,
-                };
-            }
-            try {
-                const data = await client.get<any>(`/files/${fileKey}/comments`);
-                const comments = data.comments.map((c: any) =>
-                    `- ${c.user.handle}: ${c.message} (at ${c.created_at})`
-                ).join('\n');
+        toolHandler({ action: 'fetching Figma comments', provider: 'figma' }, async ({ fileKey }, { authInfo }) => {
+            const data = await connect(authInfo).get<any>(`/files/${fileKey}/comments`);
+            const comments = data.comments.map((c: any) =>
+                `- ${c.user.handle}: ${c.message} (at ${c.created_at})`
+            ).join('\n');
 
-                return {
-                    content: [{ type: 'text' as const, text: `Comments on file ${fileKey}:\n${comments}` }],
-                };
-            } catch (error: any) {
-                return {
-                    content: [{ type: 'text' as const, text: `Error fetching Figma comments: ${error.message}` }],
-                    isError: true,
-                };
-            }
-        }
+            return {
+                content: [{ type: 'text' as const, text: `Comments on file ${fileKey}:\n${comments}` }],
+            };
+        })
     );
 }
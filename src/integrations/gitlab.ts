@@ -1,10 +1,19 @@
 import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { config } from '../config.js';
+import { config, GitLabConnection } from '../config.js';
 import { ApiClient } from '../utils/api-client.js';
+import { formatContinuation } from '../utils/tool-results.js';
+import { progressReporter } from '../utils/progress.js';
+import { assertProviderConfigured, toolHandler } from '../utils/tool-handler.js';
 import { GitLabCrawler } from '../services/gitlab-crawler.js';
-import { searchEngine } from '../services/search-engine.js';
+import { SkippedFiles } from '../services/crawl-rules.js';
+import { IndexedProject, searchEngine } from '../services/search-engine.js';
+import { buildSnippet, joinChunks } from '../services/snippets.js';
 import { resourceManager, ResourceManager } from '../services/resource-manager.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { getGitLabConnection, namespacedKey, splitNamespacedKey } from '../services/connections.js';
+import { assertAdmin, userIdOf } from '../services/credentials.js';
+import { recordTouched } from '../services/audit-log.js';
 import * as jsYaml from 'js-yaml';
 
 function parseGitLabInput(input: string): string {
@@ -32,309 +41,570 @@ function parseGitLabInput(input: string): string {
     }
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a caller's access to an indexed project is remembered
+const PROJECT_ACCESS_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * "3 days ago", "5 hours ago" or "12 minutes ago".
+ */
+function formatAge(timestamp: string): string {
+    const minutes = Math.max(0, Math.round((Date.now() - Date.parse(timestamp)) / 60000));
+    if (minutes >= 2 * 24 * 60) return `${Math.round(minutes / (24 * 60))} days ago`;
+    if (minutes >= 2 * 60) return `${Math.round(minutes / 60)} hours ago`;
+    return `${minutes} minutes ago`;
+}
+
+function formatIndexedProject(project: IndexedProject): string {
+    const files = project.files !== undefined ? ` in ${project.files} files` : '';
+    const ref = project.ref ? ` from ${project.ref}${project.commit ? `@${project.commit.slice(0, 8)}` : ''}` : '';
+    const stale = Date.now() - Date.parse(project.updatedAt) > config.SEARCH_INDEX_STALE_DAYS * DAY_MS ? ' [stale]' : '';
+    return `- ${project.projectId}: ${project.chunks} chunks${files}${ref}, indexed ${project.updatedAt} (${formatAge(project.updatedAt)})${stale}`;
+}
+
+type FileChanges = { added: number; changed: number; removed: number; unchanged: number };
+
+/**
+ * Indexed, changed and skipped file counts, appended to the crawl-gitlab output.
+ */
+function crawlSummary(result: { filesProcessed: number; chunksIndexed: number; changes: FileChanges; skipped: SkippedFiles; commit?: string }) {
+    return {
+        indexed: { files: result.filesProcessed, chunks: result.chunksIndexed, ...(result.commit ? { commit: result.commit } : {}) },
+        changes: result.changes,
+        ...(Object.keys(result.skipped).length > 0 ? { skipped: result.skipped } : {}),
+    };
+}
+
+function formatChanges(changes: FileChanges): string {
+    return `${changes.added} files added, ${changes.changed} changed, ${changes.removed} removed, ${changes.unchanged} unchanged`;
+}
+
+function formatSkipped(skipped: SkippedFiles): string {
+    const reasons = Object.entries(skipped).map(([reason, entry]) => `${entry.files} ${reason}`);
+    return reasons.length > 0 ? ` Skipped files: ${reasons.join(', ')}.` : '';
+}
+
+const connectionArg = z.string().optional().describe('Name of the GitLab connection to use (see list-connections). Defaults to the first configured connection.');
+
 export function registerGitLabTools(server: McpServer) {
-    const client = new ApiClient(`${config.GITLAB_URL}/api/v4`, {
-        'PRIVATE-TOKEN': config.GITLAB_ACCESS_TOKEN || '',
-    });
+    const clients = new Map<string, { client: ApiClient; crawler: GitLabCrawler }>();
+
+    /**
+     * Resolves a connection name to its (cached) API client and crawler,
+     * acting as the authenticated caller when there is one.
+     */
+    const connect = (name: string | undefined, authInfo: AuthInfo | undefined): { connection: GitLabConnection; client: ApiClient; crawler: GitLabCrawler } => {
+        const connection = getGitLabConnection(name, authInfo);
+        const key = `${connection.name}/${userIdOf(authInfo) ?? ''}`;
+        let entry = clients.get(key);
+        if (!entry) {
+            const client = new ApiClient(`${connection.url}/api/v4`, {
+                'PRIVATE-TOKEN': connection.token || '',
+            }, {
+                pagination: 'gitlab',
+                provider: 'gitlab',
+                cache: [
+                    // Project metadata (default branch, path) is looked up by most tools
+                    { pattern: /^\/projects\/[^/]+$/, ttlMs: 5 * 60 * 1000 },
+                    { pattern: /^\/projects\/[^/]+\/repository\/files\/.+\/raw$/, ttlMs: 60 * 1000 },
+                ],
+            });
+            entry = { client, crawler: new GitLabCrawler(client, connection) };
+            clients.set(key, entry);
+        }
+        return { connection, ...entry };
+    };
+
+    const access = new Map<string, { readable: boolean; expiresAt: number }>();
+
+    /**
+     * Whether the caller may read an indexed project. The search index and
+     * crawled resources are shared by all users, so authenticated callers
+     * only get projects their own GitLab token can access.
+     */
+    const canRead = async (projectKey: string, authInfo: AuthInfo | undefined): Promise<boolean> => {
+        if (!authInfo) return true;
+        const cacheKey = `${userIdOf(authInfo) ?? ''}\n${projectKey}`;
+        const cached = access.get(cacheKey);
+        if (cached && cached.expiresAt > Date.now()) return cached.readable;
+
+        let readable = false;
+        try {
+            const { connection, key } = splitNamespacedKey(projectKey);
+            await connect(connection, authInfo).client.get(`/projects/${encodeURIComponent(key)}`);
+            readable = true;
+        } catch (error) {
+            // Denied, including when GitLab cannot be asked
+            console.error(`Access check for project ${projectKey} failed:`, error instanceof Error ? error.message : error);
+        }
+        access.set(cacheKey, { readable, expiresAt: Date.now() + PROJECT_ACCESS_TTL_MS });
+        return readable;
+    };
+
+    // Indexed projects the caller may read; undefined when unrestricted
+    const readableProjects = async (authInfo: AuthInfo | undefined): Promise<string[] | undefined> => {
+        if (!authInfo) return undefined;
+        const projectIds = searchEngine.listProjects().map(project => project.projectId);
+        const readable = await Promise.all(projectIds.map(projectId => canRead(projectId, authInfo)));
+        return projectIds.filter((_, i) => readable[i]);
+    };
 
     server.registerTool(
         'get-gitlab-project',
         {
             description: 'Get details of a GitLab project',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 projectId: z.string().describe('The ID or URL-encoded path of the project, or the full project URL'),
+                connection: connectionArg,
             },
         },
-        async ({ projectId }) => {
-            if (!config.GITLAB_ACCESS_TOKEN) {
-                return {
-                    content: [{ type: 'text' as const, text: 'GitLab access token not configured.' }],
-                    isError: true,
-                };
-            }
+        toolHandler({ action: 'fetching GitLab project', provider: 'gitlab' }, async ({ projectId, connection }, { authInfo }) => {
+            const { client } = connect(connection, authInfo);
             const parsedId = parseGitLabInput(projectId);
-            try {
-                const data = await client.get<any>(`/projects/${encodeURIComponent(parsedId)}`);
-                return {
-                    content: [{
-                        type: 'text' as const,
-                        text: `Project: ${data.name_with_namespace}\nID: ${data.id}\nWeb URL: ${data.web_url}\nDescription: ${data.description}`
-                    }],
-                };
-            } catch (error: any) {
-                return {
-                    content: [{ type: 'text' as const, text: `Error fetching GitLab project: ${error.message}` }],
-                    isError: true,
-                };
-            }
-        }
+            const data = await client.get<any>(`/projects/${encodeURIComponent(parsedId)}`);
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `Project: ${data.name_with_namespace}\nID: ${data.id}\nWeb URL: ${data.web_url}\nDescription: ${data.description}`
+                }],
+            };
+        })
     );
 
-    // Initialize Crawler
-    const crawler = new GitLabCrawler(client);
-
     server.registerTool(
         'crawl-gitlab',
         {
-            description: 'Crawl and index personal and private GitLab projects, files, and folders. If you know the project full URL you can crawl a specific project by providing it as an input parameter. If you omit the input parameter, it will crawl all projects. Use this tool whenever you are initiating a new search session to ensure the search engine has the latest data.',
+            description: 'Crawl and index personal and private GitLab projects, files, and folders. If you know the project full URL you can crawl a specific project by providing it as an input parameter. If you omit the input parameter, it will crawl all projects. Use this tool whenever you are initiating a new search session to ensure the search engine has the latest data; re-crawls only fetch files that changed since the last crawl. Reports progress when the request carries a progressToken.',
+            annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true }, // Local state, see LOCAL_STATE_TOOLS
             inputSchema: {
                 project: z.string().optional().describe('The project name, full URL, or ID. If omitted, crawls ALL projects.'),
+                preset: z.enum(['docs', 'code', 'all']).optional().describe('Files to index instead of the configured ones: docs (markdown and text), code (source, YAML, JSON and notebooks) or all. Administrators only'),
+                include: z.array(z.string()).optional().describe('Path globs of files to index instead of the configured ones (added to the preset). Globs without "/" match file names, e.g. *.md. Administrators only'),
+                exclude: z.array(z.string()).optional().describe('Path globs of files not to index, in addition to the configured ones. Administrators only'),
+                full: z.boolean().optional().default(false).describe('Refetch every file, even those unchanged since the last crawl. Administrators only'),
+                connection: connectionArg,
             },
         },
-        async ({ project }) => {
-            if (!config.GITLAB_ACCESS_TOKEN) {
-                return {
-                    content: [{ type: 'text' as const, text: 'GitLab access token not configured.' }],
-                    isError: true,
-                };
-            }
-
-            try {
-                // Helper to build YAML for a project
-                const buildProjectYaml = (projectData: any, resources: any[]) => {
-                    const projectId = projectData.id;
-                    const projectRes = resources.filter(r => r.projectPath === projectData.path_with_namespace || r.uri.startsWith(`gitlab://${projectData.path_with_namespace}/`));
-
-                    // Build nested structure
-                    const pathMap = new Map<string, any>();
-
-                    // First pass: create objects for all resources
-                    for (const r of projectRes) {
-                        const relPath = r.uri.replace(`gitlab://${projectData.path_with_namespace}/`, '');
-                        // Parse the stored YAML text back to object
-                        let obj;
-                        try {
-                            obj = JSON.parse(r.text || '{}');
-                        } catch (e) {
-                            obj = {};
-                        }
-                        pathMap.set(relPath, obj);
+        toolHandler({ action: 'crawling GitLab', provider: 'gitlab' }, async ({ project, preset, include, exclude, full, connection }, extra) => {
+            // Overrides replace what the shared index holds for the project, like rebuild-search-index
+            if (full) assertAdmin(extra.authInfo, 'force a full crawl', 'the search index');
+            if (preset || include || exclude) assertAdmin(extra.authInfo, 'crawl with other file rules than the configured ones', 'the search index');
+            const { crawler } = connect(connection, extra.authInfo);
+            const onProgress = progressReporter(extra);
+            const overrides = { preset, include, exclude };
+
+            // Helper to build YAML for a project
+            const buildProjectYaml = (projectData: any, resources: any[]) => {
+                const projectId = projectData.id;
+                const projectRes = resources.filter(r => r.projectPath === projectData.key || r.uri.startsWith(`gitlab://${projectData.key}/`));
+
+                // Build nested structure
+                const pathMap = new Map<string, any>();
+
+                // First pass: create objects for all resources
+                for (const r of projectRes) {
+                    const relPath = r.uri.replace(`gitlab://${projectData.key}/`, '');
+                    // Parse the stored YAML text back to object
+                    let obj;
+                    try {
+                        obj = JSON.parse(r.text || '{}');
+                    } catch (e) {
+                        obj = {};
                     }
+                    pathMap.set(relPath, obj);
+                }
 
-                    // Second pass: nest them
-                    const rootContents: any = {};
-
-                    for (const [relPath, obj] of pathMap.entries()) {
-                        const parts = relPath.split('/');
-                        const name = parts[parts.length - 1];
-                        const parentPath = parts.slice(0, -1).join('/');
-
-                        if (parentPath === '') {
-                            // Root item
-                            rootContents[name] = obj;
-                        } else {
-                            // Child item
-                            const parentObj = pathMap.get(parentPath);
-                            if (parentObj) {
-                                if (obj.isFolder) {
-                                    parentObj.folders = parentObj.folders || [];
-                                    parentObj.folders.push(name);
-                                } else {
-                                    parentObj.files = parentObj.files || [];
-                                    parentObj.files.push(name);
-                                }
+                // Second pass: nest them
+                const rootContents: any = {};
+
+                for (const [relPath, obj] of pathMap.entries()) {
+                    const parts = relPath.split('/');
+                    const name = parts[parts.length - 1];
+                    const parentPath = parts.slice(0, -1).join('/');
+
+                    if (parentPath === '') {
+                        // Root item
+                        rootContents[name] = obj;
+                    } else {
+                        // Child item
+                        const parentObj = pathMap.get(parentPath);
+                        if (parentObj) {
+                            if (obj.isFolder) {
+                                parentObj.folders = parentObj.folders || [];
+                                parentObj.folders.push(name);
+                            } else {
+                                parentObj.files = parentObj.files || [];
+                                parentObj.files.push(name);
                             }
                         }
                     }
+                }
 
-                    return {
-                        project: {
-                            name: projectData.name,
-                            id: projectData.id,
-                            url: projectData.url
-                        },
-                        contents: rootContents
-                    };
+                return {
+                    project: {
+                        name: projectData.name,
+                        id: projectData.id,
+                        url: projectData.url
+                    },
+                    contents: rootContents
                 };
+            };
 
-                if (project) {
-                    const parsedId = parseGitLabInput(project);
-                    const result = await crawler.crawlProject(parsedId, false);
-
-                    const resources = resourceManager.getAllResources()
-                        .filter(r => r.projectPath === parsedId);
+            if (project) {
+                const parsedId = parseGitLabInput(project);
+                const result = await crawler.crawlProject(parsedId, false, onProgress, overrides, full);
+                recordTouched({ type: 'gitlab-project', id: result.project.path_with_namespace, connection: connection ?? getGitLabConnection().name });
 
-                    const yamlObj = buildProjectYaml(result.project, resources);
-                    const yamlStr = jsYaml.dump(yamlObj);
+                const resources = resourceManager.getAllResources()
+                    .filter(r => r.projectPath === result.project.key);
 
-                    return {
-                        content: [{ type: 'text' as const, text: yamlStr }]
-                    };
-                } else {
-                    // Crawl all
-                    const result = await crawler.crawlAllProjects(false);
-                    const allRes = resourceManager.getAllResources();
+                const yamlObj = { ...buildProjectYaml(result.project, resources), ...crawlSummary(result) };
+                const yamlStr = jsYaml.dump(yamlObj);
 
-                    const allYaml = result.projects.map((p: any) => buildProjectYaml(p, allRes));
+                return {
+                    content: [{ type: 'text' as const, text: yamlStr }]
+                };
+            } else {
+                // Crawl all
+                const result = await crawler.crawlAllProjects(false, onProgress, overrides, full);
+                recordTouched(...result.projects.map((p: any) => ({ type: 'gitlab-project', id: p.path_with_namespace, connection: connection ?? getGitLabConnection().name })));
+                const allRes = resourceManager.getAllResources();
 
-                    let yamlStr;
-                    if (allYaml.length === 1) {
-                        yamlStr = jsYaml.dump(allYaml[0]);
-                    } else {
-                        yamlStr = jsYaml.dump(allYaml);
-                    }
+                const allYaml = result.projects.map((p: any) => buildProjectYaml(p, allRes));
 
-                    return {
-                        content: [{ type: 'text' as const, text: yamlStr }]
-                    };
+                let yamlStr;
+                if (allYaml.length === 1) {
+                    yamlStr = jsYaml.dump({ ...allYaml[0], ...crawlSummary(result) });
+                } else {
+                    yamlStr = jsYaml.dump({ projects: allYaml, ...crawlSummary(result), unchangedProjects: result.projectsUnchanged });
                 }
-            } catch (error: any) {
+
                 return {
-                    content: [{ type: 'text' as const, text: `Error crawling GitLab: ${error.message}` }],
-                    isError: true,
+                    content: [{ type: 'text' as const, text: yamlStr }]
                 };
             }
-        }
+        })
     );
 
     server.registerTool(
         'search-gitlab-context',
         {
             description: 'Search for context within crawled GitLab projects. If projectId is provided, results from that project are prioritized.',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 projectId: z.string().optional().describe('The ID or URL-encoded path of the project, or the full project URL. Optional for global search.'),
-                query: z.string().describe('The search query'),
+                query: z.string().describe('The search query. All words must match (fuzzily). Supports "exact phrases", -excluded words, OR (e.g. android OR ios), parentheses, and filters project:<path glob>, path:<glob or directory>, type:markdown|code|text|openapi|config|csv|notebook, title:<words>, lang:<language or extension>, and tag:, owner:, status: from markdown front matter'),
                 limit: z.number().optional().default(5).describe('Max number of results'),
+                collapse: z.boolean().optional().default(true).describe('Show only the best match per file, with the number of matches in it'),
+                connection: connectionArg,
             },
         },
-        async ({ projectId, query, limit }) => {
-            const parsedId = projectId ? parseGitLabInput(projectId) : undefined;
-            try {
-                const results = searchEngine.search(parsedId, query, limit);
-
-                if (results.length === 0) {
-                    const scopeMsg = parsedId ? `project ${parsedId}` : 'any project';
-                    return {
-                        content: [{ type: 'text' as const, text: `No results found for "${query}" in ${scopeMsg}. Make sure to run 'crawl-gitlab' first.` }],
-                    };
-                }
-
-                const formattedResults = results.map((result, index) => {
-                    const chunk = result.chunk;
-                    const score = result.score.toFixed(2);
-
-                    // Extract snippet
-                    const lines = chunk.content.split('\n');
-                    let bestLineIndex = 0;
-
-                    if (result.matchDetails.length > 0) {
-                        const firstTerm = result.matchDetails[0].term;
-                        const idx = lines.findIndex(l => l.toLowerCase().includes(firstTerm));
-                        if (idx !== -1) bestLineIndex = idx;
-                    }
-
-                    const start = Math.max(0, bestLineIndex - 1);
-                    const end = Math.min(lines.length, bestLineIndex + 3);
-                    const snippet = lines.slice(start, end).join('\n');
+        toolHandler({ action: 'searching GitLab context' }, async ({ projectId, query, limit, collapse, connection }, { authInfo }) => {
+            const connectionName = getGitLabConnection(connection).name;
+            const parsedId = projectId ? namespacedKey(connectionName, parseGitLabInput(projectId)) : undefined;
+            const projects = await readableProjects(authInfo);
+            const results = await searchEngine.search(parsedId, query, limit, { collapseByFile: collapse, projects });
+
+            if (results.length === 0) {
+                const scopeMsg = parsedId ? `project ${parsedId}` : 'any project';
+                // Suggestions come from every project, so a restricted caller only
+                // gets one that finds something they may read
+                let suggestion = searchEngine.suggest(query);
+                if (suggestion && projects && (await searchEngine.search(parsedId, suggestion, 1, { projects })).length === 0) suggestion = undefined;
+                const hint = suggestion ? `Did you mean "${suggestion}"?` : `Make sure to run 'crawl-gitlab' first.`;
+                return {
+                    content: [{ type: 'text' as const, text: `No results found for "${query}" in ${scopeMsg}. ${hint}` }],
+                };
+            }
 
-                    return `[Result ${index + 1}] (Score: ${score})
+            const formattedResults = results.map((result, index) => {
+                const chunk = result.chunk;
+                const score = result.score.toFixed(2);
+                const hits = result.fileHits && result.fileHits > 1 ? `, ${result.fileHits} matches in this file` : '';
+                const snippet = buildSnippet(result);
+                const snippetLines = snippet.startLine !== undefined ? ` (lines ${snippet.startLine}-${snippet.endLine})` : '';
+                const location = chunk.metadata.cell !== undefined ? ` (Cell ${chunk.metadata.cell})`
+                    : chunk.metadata.startLine !== undefined ? ` (Lines ${chunk.metadata.startLine}-${chunk.metadata.endLine})` : '';
+                const section = chunk.metadata.breadcrumb ? `\nSection: ${[...chunk.metadata.breadcrumb, chunk.metadata.title].join(' > ')}` : '';
+
+                return `[Result ${index + 1}] (Score: ${score}${hits})
+ID: ${chunk.id}
 Project: ${chunk.projectId}
-File: ${chunk.filePath} (Lines ${chunk.metadata.startLine}-${chunk.metadata.endLine})
-Snippet:
-${snippet}
+File: ${chunk.filePath}${location}${section}
+Snippet${snippetLines}:
+${snippet.text}
 ...
 `;
-                }).join('\n---\n\n');
+            }).join('\n---\n\n');
+
+            return {
+                content: [{ type: 'text' as const, text: `Found ${results.length} matches:\n\n${formattedResults}\nUse expand-gitlab-context with a result ID to read around a match.` }],
+            };
+        })
+    );
 
+    server.registerTool(
+        'expand-gitlab-context',
+        {
+            description: 'Expand a search-gitlab-context result into its neighbouring chunks or its whole section (markdown heading with subsections), from the index without refetching the file',
+            annotations: { readOnlyHint: true },
+            inputSchema: {
+                resultId: z.string().describe('The ID of a search-gitlab-context result'),
+                before: z.number().int().min(0).max(20).optional().default(1).describe('Chunks to include before the result'),
+                after: z.number().int().min(0).max(20).optional().default(1).describe('Chunks to include after the result'),
+                section: z.boolean().optional().default(false).describe('Return the whole section instead of neighbouring chunks'),
+            },
+        },
+        toolHandler({ action: 'expanding GitLab search result' }, async ({ resultId, before, after, section }, { authInfo }) => {
+            const chunks = searchEngine.expandChunk(resultId, { before, after, section });
+            if (!chunks || !(await canRead(chunks[0].projectId, authInfo))) {
                 return {
-                    content: [{ type: 'text' as const, text: `Found ${results.length} matches:\n\n${formattedResults}` }],
+                    content: [{ type: 'text' as const, text: `No indexed chunk with ID "${resultId}". The project may have been re-crawled since; search again for current IDs.` }],
+                    isError: true,
                 };
-            } catch (error: any) {
+            }
+
+            const first = chunks[0];
+            const lastLine = Math.max(...chunks.map(chunk => chunk.metadata.endLine ?? 0));
+            const lines = first.metadata.startLine !== undefined ? `Lines ${first.metadata.startLine}-${lastLine}, ` : '';
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `Project: ${first.projectId}\nFile: ${first.filePath} (${lines}${chunks.length} chunks)\n\n${joinChunks(chunks)}`,
+                }],
+            };
+        })
+    );
+
+    server.registerTool(
+        'list-indexed-projects',
+        {
+            description: 'List the projects in the GitLab search index with their chunk and file counts, when they were last indexed and from which branch. Projects not re-crawled for SEARCH_INDEX_STALE_DAYS are marked [stale].',
+            annotations: { readOnlyHint: true },
+        },
+        toolHandler({ action: 'listing indexed projects' }, async ({ authInfo }: { authInfo?: AuthInfo }) => {
+            const readable = await readableProjects(authInfo);
+            const projects = searchEngine.listProjects().filter(project => !readable || readable.includes(project.projectId));
+            if (projects.length === 0) {
                 return {
-                    content: [{ type: 'text' as const, text: `Error searching GitLab context: ${error.message}` }],
-                    isError: true,
+                    content: [{ type: 'text' as const, text: `The search index is empty. Run 'crawl-gitlab' to index projects.` }],
                 };
             }
-        }
+            return {
+                content: [{ type: 'text' as const, text: `Indexed projects (${projects.length}):\n${projects.map(formatIndexedProject).join('\n')}` }],
+            };
+        })
     );
 
     server.registerTool(
-        'list-gitlab-issues',
+        'show-indexed-file',
         {
-            description: 'List issues in a GitLab project',
+            description: 'Show how a file of a crawled GitLab project is chunked in the search index: chunk IDs, line ranges, titles and sizes, optionally with the chunk contents',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 projectId: z.string().describe('The ID or URL-encoded path of the project, or the full project URL'),
-                state: z.enum(['opened', 'closed', 'all']).optional().default('opened'),
+                filePath: z.string().describe('The full path to the file (e.g. docs/setup.md)'),
+                includeContent: z.boolean().optional().default(false).describe('Include the text of every chunk'),
+                connection: connectionArg,
             },
         },
-        async ({ projectId, state }) => {
-            if (!config.GITLAB_ACCESS_TOKEN) {
+        toolHandler({ action: 'showing indexed file' }, async ({ projectId, filePath, includeContent, connection }, { authInfo }) => {
+            const projectKey = namespacedKey(getGitLabConnection(connection).name, parseGitLabInput(projectId));
+            const chunks = await canRead(projectKey, authInfo) ? searchEngine.getFileChunks(projectKey, filePath) : undefined;
+            if (!chunks || chunks.length === 0) {
+                const reason = chunks ? `${filePath} has no chunks in project ${projectKey} (not a supported file type, or added since the last crawl)` : `Project ${projectKey} is not indexed`;
                 return {
-                    content: [{ type: 'text' as const, text: 'GitLab access token not configured.' }],
+                    content: [{ type: 'text' as const, text: `${reason}. See list-indexed-projects.` }],
                     isError: true,
                 };
             }
-            const parsedId = parseGitLabInput(projectId);
-            try {
-                const data = await client.get<any[]>(`/projects/${encodeURIComponent(parsedId)}/issues`, { state });
-                const issues = data.map((i: any) =>
-                    `- #${i.iid}: ${i.title} (${i.state}) - ${i.web_url}`
-                ).join('\n');
 
+            const formatted = chunks.map((chunk, index) => {
+                const lines = chunk.metadata.startLine !== undefined ? `, lines ${chunk.metadata.startLine}-${chunk.metadata.endLine}` : '';
+                const title = chunk.metadata.title ? `, title "${chunk.metadata.title}"` : '';
+                const signature = chunk.metadata.signature ? `\n  ${chunk.metadata.signature}` : '';
+                const header = `[Chunk ${index + 1}] ${chunk.id} (${chunk.metadata.symbolKind ?? chunk.metadata.type}${lines}${title}, ${chunk.content.length} chars)${signature}`;
+                return includeContent ? `${header}\n${chunk.content}` : header;
+            }).join(includeContent ? '\n\n---\n\n' : '\n');
+
+            return {
+                content: [{ type: 'text' as const, text: `Project: ${projectKey}\nFile: ${filePath} (${chunks.length} chunks)\n\n${formatted}` }],
+            };
+        })
+    );
+
+    server.registerTool(
+        'search-index-stats',
+        {
+            description: 'Summarize the GitLab search index: totals, the most common terms, the distribution of chunk sizes and the projects that have not been re-crawled recently',
+            annotations: { readOnlyHint: true },
+        },
+        toolHandler({ action: 'summarizing search index' }, async ({ authInfo }: { authInfo?: AuthInfo }) => {
+            const stats = searchEngine.stats(config.SEARCH_INDEX_STALE_DAYS * DAY_MS, undefined, await readableProjects(authInfo));
+            if (stats.projects === 0) {
                 return {
-                    content: [{ type: 'text' as const, text: `Issues in project ${parsedId}:\n${issues}` }],
+                    content: [{ type: 'text' as const, text: `The search index is empty. Run 'crawl-gitlab' to index projects.` }],
                 };
-            } catch (error: any) {
+            }
+
+            const topTerms = stats.topTerms.map(({ term, chunks }) => `${term} (${chunks})`).join(', ');
+            const sizes = stats.chunkSizes.map(({ label, chunks }) => `- ${label}: ${chunks}`).join('\n');
+            const stale = stats.staleProjects.map(formatIndexedProject).join('\n');
+
+            const text = `Search Index:
+Projects: ${stats.projects}
+Files: ${stats.files}
+Chunks: ${stats.chunks}
+Distinct terms: ${stats.terms}
+
+Most common terms (chunks containing them):
+${topTerms}
+
+Chunk sizes (median ${stats.medianChunkChars} chars, max ${stats.maxChunkChars} chars):
+${sizes}
+
+Stale projects (not indexed in the last ${config.SEARCH_INDEX_STALE_DAYS} days):
+${stale || '(none)'}`;
+
+            return {
+                content: [{ type: 'text' as const, text }],
+            };
+        })
+    );
+
+    server.registerTool(
+        'clear-search-index',
+        {
+            description: 'Remove a GitLab project from the search index, e.g. one that was deleted or moved. Its files are no longer returned by search-gitlab-context until it is crawled again.',
+            annotations: { readOnlyHint: false, destructiveHint: true }, // Local state, see LOCAL_STATE_TOOLS
+            inputSchema: {
+                projectId: z.string().describe('The ID or URL-encoded path of the project, or the full project URL, as listed by list-indexed-projects'),
+                connection: connectionArg,
+            },
+        },
+        toolHandler({ action: 'clearing search index' }, async ({ projectId, connection }, { authInfo }) => {
+            assertAdmin(authInfo, 'remove projects from the search index', 'the search index');
+            const projectKey = namespacedKey(getGitLabConnection(connection).name, parseGitLabInput(projectId));
+            if (!searchEngine.clearIndex(projectKey)) {
                 return {
-                    content: [{ type: 'text' as const, text: `Error listing GitLab issues: ${error.message}` }],
+                    content: [{ type: 'text' as const, text: `Project ${projectKey} is not indexed. See list-indexed-projects.` }],
                     isError: true,
                 };
             }
-        }
+            return {
+                content: [{ type: 'text' as const, text: `Removed project ${projectKey} from the search index.` }],
+            };
+        })
+    );
+
+    server.registerTool(
+        'rebuild-search-index',
+        {
+            description: 'Re-crawl a GitLab project and replace its search index. The current index stays searchable until the new one is complete. Reports progress when the request carries a progressToken.',
+            annotations: { readOnlyHint: false, destructiveHint: true }, // Local state, see LOCAL_STATE_TOOLS
+            inputSchema: {
+                projectId: z.string().describe('The ID or URL-encoded path of the project, or the full project URL'),
+                connection: connectionArg,
+            },
+        },
+        toolHandler({ action: 'rebuilding search index', provider: 'gitlab' }, async ({ projectId, connection }, extra) => {
+            assertAdmin(extra.authInfo, 'rebuild the search index', 'the search index');
+            const { connection: gitlab, crawler } = connect(connection, extra.authInfo);
+            const parsedId = parseGitLabInput(projectId);
+            const previous = searchEngine.listProjects().find(project => project.projectId === namespacedKey(gitlab.name, parsedId));
+
+            const result = await crawler.crawlProject(parsedId, false, progressReporter(extra), {}, true);
+            recordTouched({ type: 'gitlab-project', id: result.project.path_with_namespace, connection: gitlab.name });
+
+            const before = previous ? ` (previously ${previous.chunks} chunks, indexed ${formatAge(previous.updatedAt)})` : '';
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `Rebuilt the search index of ${result.project.key}: ${result.chunksIndexed} chunks from ${result.filesProcessed} files${before}; ${formatChanges(result.changes)}.${formatSkipped(result.skipped)}`,
+                }],
+            };
+        })
+    );
+
+    server.registerTool(
+        'list-gitlab-issues',
+        {
+            description: 'List issues in a GitLab project',
+            annotations: { readOnlyHint: true },
+            inputSchema: {
+                projectId: z.string().describe('The ID or URL-encoded path of the project, or the full project URL'),
+                state: z.enum(['opened', 'closed', 'all']).optional().default('opened'),
+                page: z.number().int().min(1).optional().describe('Page number to start from (1-based)'),
+                cursor: z.string().optional().describe('Continuation cursor returned by a previous call. Takes precedence over page.'),
+                maxItems: z.number().int().min(1).optional().default(50).describe('Maximum number of issues to return'),
+                connection: connectionArg,
+            },
+        },
+        toolHandler({ action: 'listing GitLab issues', provider: 'gitlab' }, async ({ projectId, state, page, cursor, maxItems, connection }, { authInfo }) => {
+            const { client } = connect(connection, authInfo);
+            const parsedId = parseGitLabInput(projectId);
+            const result = await client.collect<any>(`/projects/${encodeURIComponent(parsedId)}/issues`, { state }, {
+                cursor,
+                startCursor: page ? String(page) : undefined,
+                maxItems,
+            });
+            const issues = result.items.map((i: any) =>
+                `- #${i.iid}: ${i.title} (${i.state}) - ${i.web_url}`
+            ).join('\n');
+
+            return {
+                content: [{ type: 'text' as const, text: `Issues in project ${parsedId}:\n${issues}${formatContinuation(result)}` }],
+            };
+        })
     );
 
     server.registerTool(
         'list-gitlab-merge-requests',
         {
             description: 'List merge requests in a GitLab project',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 projectId: z.string().describe('The ID or URL-encoded path of the project, or the full project URL'),
                 state: z.enum(['opened', 'closed', 'locked', 'merged', 'all']).optional().default('opened'),
+                page: z.number().int().min(1).optional().describe('Page number to start from (1-based)'),
+                cursor: z.string().optional().describe('Continuation cursor returned by a previous call. Takes precedence over page.'),
+                maxItems: z.number().int().min(1).optional().default(50).describe('Maximum number of merge requests to return'),
+                connection: connectionArg,
             },
         },
-        async ({ projectId, state }) => {
-            if (!config.GITLAB_ACCESS_TOKEN) {
-                return {
-                    content: [{ type: 'text' as const, text: 'GitLab access token not configured.' }],
-                    isError: true,
-                };
-            }
+        toolHandler({ action: 'listing GitLab MRs', provider: 'gitlab' }, async ({ projectId, state, page, cursor, maxItems, connection }, { authInfo }) => {
+            const { client } = connect(connection, authInfo);
             const parsedId = parseGitLabInput(projectId);
-            try {
-                const data = await client.get<any[]>(`/projects/${encodeURIComponent(parsedId)}/merge_requests`, { state });
-                const mrs = data.map((mr: any) =>
-                    `- !${mr.iid}: ${mr.title} (${mr.state}) - ${mr.web_url}`
-                ).join('\n');
-
-                return {
-                    content: [{ type: 'text' as const, text: `Merge Requests in project ${parsedId}:\n${mrs}` }],
-                };
-            } catch (error: any) {
-                return {
-                    content: [{ type: 'text' as const, text: `Error listing GitLab MRs: ${error.message}` }],
-                    isError: true,
-                };
-            }
-        }
+            const result = await client.collect<any>(`/projects/${encodeURIComponent(parsedId)}/merge_requests`, { state }, {
+                cursor,
+                startCursor: page ? String(page) : undefined,
+                maxItems,
+            });
+            const mrs = result.items.map((mr: any) =>
+                `- !${mr.iid}: ${mr.title} (${mr.state}) - ${mr.web_url}`
+            ).join('\n');
+
+            return {
+                content: [{ type: 'text' as const, text: `Merge Requests in project ${parsedId}:\n${mrs}${formatContinuation(result)}` }],
+            };
+        })
     );
 
     server.registerTool(
         'get-gitlab-file',
         {
             description: 'Get the content of a specific file from a GitLab project',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 projectId: z.string().describe('The ID or URL-encoded path of the project, or the full project URL'),
                 filePath: z.string().describe('The full path to the file (e.g. src/index.ts) or the full file URL'),
+                connection: connectionArg,
             },
         },
-        async ({ projectId, filePath }) => {
-            if (!config.GITLAB_ACCESS_TOKEN) {
-                return {
-                    content: [{ type: 'text' as const, text: 'GitLab access token not configured.' }],
-                    isError: true,
-                };
-            }
-
+        toolHandler({ action: 'fetching file content', provider: 'gitlab' }, async ({ projectId, filePath, connection: connectionName }, { authInfo }) => {
+            const { connection, client } = connect(connectionName, authInfo);
             const parsedProjectId = parseGitLabInput(projectId);
             let parsedFilePath = filePath;
 
@@ -358,59 +628,56 @@ ${snippet}
                 }
             }
 
-            try {
-                // Try to get from cache first
-                const uri = ResourceManager.getUri(parsedProjectId, parsedFilePath);
-                const resource = resourceManager.getResource(uri);
+            // Try to get from cache first, if the caller may read the project
+            const projectKey = namespacedKey(connection.name, parsedProjectId);
+            const uri = ResourceManager.getUri(projectKey, parsedFilePath);
+            const resource = await canRead(projectKey, authInfo) ? resourceManager.getResource(uri) : undefined;
 
-                // If resource is YAML metadata, we might want to check if it has content?
-                // But get-gitlab-file is supposed to return content.
-                // If the resource is just metadata, we still need to fetch content.
-                // The resource.text might be YAML now.
+            // If resource is YAML metadata, we might want to check if it has content?
+            // But get-gitlab-file is supposed to return content.
+            // If the resource is just metadata, we still need to fetch content.
+            // The resource.text might be YAML now.
 
-                // Check if resource.text is valid content or YAML metadata
-                if (resource && resource.text) {
-                    // If it looks like our YAML metadata, ignore it and fetch fresh?
-                    // Or check if it has "content" field?
-                    try {
-                        const meta = JSON.parse(resource.text);
-                        if (meta.content && meta.content.text) {
-                            return {
-                                content: [{ type: 'text' as const, text: meta.content.text }],
-                            };
-                        }
-                    } catch (e) {
-                        // Not JSON, so it's probably raw content (legacy or plain text)
+            // Check if resource.text is valid content or YAML metadata
+            if (resource && resource.text) {
+                // If it looks like our YAML metadata, ignore it and fetch fresh?
+                // Or check if it has "content" field?
+                try {
+                    const meta = JSON.parse(resource.text);
+                    if (meta.content && meta.content.text) {
                         return {
-                            content: [{ type: 'text' as const, text: resource.text }],
+                            content: [{ type: 'text' as const, text: meta.content.text }],
                         };
                     }
+                } catch (e) {
+                    // Not JSON, so it's probably raw content (legacy or plain text)
+                    return {
+                        content: [{ type: 'text' as const, text: resource.text }],
+                    };
                 }
+            }
 
-                // If not in cache or no content in metadata, fetch live
-                const project = await client.get<any>(`/projects/${encodeURIComponent(parsedProjectId)}`);
-                const defaultBranch = project.default_branch || 'main';
+            // If not in cache or no content in metadata, fetch live
+            const project = await client.get<any>(`/projects/${encodeURIComponent(parsedProjectId)}`);
+            const defaultBranch = project.default_branch || 'main';
 
-                const content = await client.getText(`/projects/${encodeURIComponent(parsedProjectId)}/repository/files/${encodeURIComponent(parsedFilePath)}/raw`, {
-                    ref: defaultBranch
-                });
+            const content = await client.getText(`/projects/${encodeURIComponent(parsedProjectId)}/repository/files/${encodeURIComponent(parsedFilePath)}/raw`, {
+                ref: defaultBranch
+            });
 
-                return {
-                    content: [{ type: 'text' as const, text: content }],
-                };
-            } catch (error: any) {
-                return {
-                    content: [{ type: 'text' as const, text: `Error fetching file content: ${error.message}` }],
-                    isError: true,
-                };
-            }
-        }
+            return {
+                content: [{ type: 'text' as const, text: content }],
+            };
+        })
     );
     server.registerResource(
         'gitlab-file',
         new ResourceTemplate('gitlab://{projectId}/{+filePath}', {
-            list: async () => {
-                const resources = resourceManager.getAllResources();
+            list: async ({ authInfo }) => {
+                const resources = [];
+                for (const resource of resourceManager.getAllResources()) {
+                    if (await canRead(resource.projectPath ?? '', authInfo)) resources.push(resource);
+                }
                 return {
                     resources: resources.map(r => ({
                         uri: r.uri,
@@ -425,16 +692,16 @@ ${snippet}
         {
             mimeType: 'application/x-yaml',
         },
-        async (uri, { projectId, filePath }) => {
-            if (!config.GITLAB_ACCESS_TOKEN) {
-                throw new Error('GitLab access token not configured.');
-            }
+        async (uri, { projectId, filePath }, { authInfo }) => {
+            // Keys of non-default connections look like "<connection>:<group>/<project>"
+            const projectKey = String(projectId);
+            assertProviderConfigured('gitlab', projectKey.includes(':') ? projectKey.split(':')[0] : undefined, authInfo);
 
             // 1. Try to find in cache first using the full URI
             const uriStr = String(uri);
             const resource = resourceManager.getResource(uriStr);
 
-            if (resource && resource.text) {
+            if (resource && resource.text && await canRead(resource.projectPath ?? projectKey, authInfo)) {
                 return {
                     contents: [{
                         uri: uriStr,
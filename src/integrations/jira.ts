@@ -1,285 +1,294 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { config } from '../config.js';
+import { JiraConnection } from '../config.js';
 import { ApiClient } from '../utils/api-client.js';
+import { formatContinuation } from '../utils/tool-results.js';
+import { toolHandler } from '../utils/tool-handler.js';
 import { resourceManager } from '../services/resource-manager.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { getJiraConnection, jiraApiBaseUrl, jiraApiVersion, jiraAuthorization, jiraSiteUrl, namespacedKey } from '../services/connections.js';
+import { userIdOf } from '../services/credentials.js';
+import { recordTouched } from '../services/audit-log.js';
+
+const connectionArg = z.string().optional().describe('Name of the Jira connection to use (see list-connections). Defaults to the first configured connection.');
+
+// Jira pages by item offset, so page N of `maxItems` issues starts at (N - 1) * maxItems
+const startAt = (page: number | undefined, maxItems: number) => page ? String((page - 1) * maxItems) : undefined;
+
+// ADF is only understood by REST v3; v2 takes descriptions as wiki markup strings
+const descriptionFormat = (connection: JiraConnection) =>
+    connection.descriptionFormat ?? (jiraApiVersion(connection) === '3' ? 'adf' : 'wiki');
+
+/**
+ * Converts plain text to an Atlassian Document Format body, one paragraph per blank-line separated block.
+ */
+const toAdf = (text: string) => ({
+    type: 'doc',
+    version: 1,
+    content: text.split(/\n\s*\n/).filter(block => block.trim()).map(block => ({
+        type: 'paragraph',
+        content: block.split('\n').flatMap((line, i) => [
+            ...(i > 0 ? [{ type: 'hardBreak' }] : []),
+            ...(line ? [{ type: 'text', text: line }] : []),
+        ]),
+    })),
+});
+
+/**
+ * Flattens a description to text: v2 returns a string, v3 an ADF document.
+ */
+const descriptionText = (description: unknown): string => {
+    if (typeof description === 'string') return description;
+    const walk = (node: any): string => {
+        if (!node || typeof node !== 'object') return '';
+        if (node.type === 'text') return node.text ?? '';
+        if (node.type === 'hardBreak') return '\n';
+        const inner = Array.isArray(node.content) ? node.content.map(walk).join('') : '';
+        const blocks = ['paragraph', 'heading', 'listItem', 'codeBlock', 'blockquote', 'rule'];
+        return blocks.includes(node.type) ? `${inner}\n` : inner;
+    };
+    return walk(description).trim();
+};
 
 export function registerJiraTools(server: McpServer) {
-    const auth = Buffer.from(`${config.JIRA_EMAIL || ''}:${config.JIRA_API_TOKEN || ''}`).toString('base64');
-    const client = new ApiClient(`https://${config.JIRA_DOMAIN || 'jira.atlassian.net'}/rest/api/3`, {
-        'Authorization': `Basic ${auth}`,
-        'Accept': 'application/json',
-    });
+    const clients = new Map<string, ApiClient>();
 
-    const checkCredentials = () => {
-        if (!config.JIRA_API_TOKEN || !config.JIRA_DOMAIN || !config.JIRA_EMAIL) {
-            return {
-                content: [{ type: 'text' as const, text: 'Jira credentials (domain, email, token) not configured.' }],
-                isError: true,
-            };
+    /**
+     * Resolves a connection name to its (cached) API client, acting as the
+     * authenticated caller when there is one.
+     */
+    const connect = (name: string | undefined, authInfo: AuthInfo | undefined): { connection: JiraConnection; client: ApiClient } => {
+        const connection = getJiraConnection(name, authInfo);
+        const key = `${connection.name}/${userIdOf(authInfo) ?? ''}`;
+        let client = clients.get(key);
+        if (!client) {
+            client = new ApiClient(jiraApiBaseUrl(connection), {
+                'Authorization': jiraAuthorization(connection),
+                'Accept': 'application/json',
+            }, {
+                pagination: 'jira',
+                provider: 'jira',
+                cache: [
+                    { pattern: /^\/project$/, ttlMs: 10 * 60 * 1000 },
+                    { pattern: /^\/myself$/, ttlMs: 10 * 60 * 1000 },
+                    { pattern: /^\/issue\/[^/]+$/, ttlMs: 30 * 1000 },
+                ],
+            });
+            clients.set(key, client);
         }
-        return null;
+        return { connection, client };
     };
 
     server.registerTool(
         'list-jira-projects',
         {
             description: 'List all accessible Jira projects. Use this tool to see what projects are available. After listing, ASK THE USER to select a project by its Key (e.g., "PROJ") so you can use it for subsequent actions like searching issues.',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 limit: z.number().optional().default(50).describe('Maximum number of projects to return'),
+                connection: connectionArg,
             },
         },
-        async ({ limit }) => {
-            const error = checkCredentials();
-            if (error) return error;
+        toolHandler({ action: 'listing Jira projects', provider: 'jira' }, async ({ limit, connection }, { authInfo }) => {
+            const { client } = connect(connection, authInfo);
+            const data = await client.get<any[]>('/project');
+            // Slice to limit and map to useful info
+            const projects = data.slice(0, limit).map((p: any) =>
+                `- [${p.key}] ${p.name} (ID: ${p.id})`
+            ).join('\n');
 
-            try {
-                const data = await client.get<any[]>('/project');
-                // Slice to limit and map to useful info
-                const projects = data.slice(0, limit).map((p: any) =>
-                    `- [${p.key}] ${p.name} (ID: ${p.id})`
-                ).join('\n');
-
-                return {
-                    content: [{ type: 'text' as const, text: `Found ${data.length} projects (showing top ${limit}):\n${projects}\n\nPlease ask the user to specify which Project Key they would like to work with.` }],
-                };
-            } catch (error: any) {
-                return {
-                    content: [{ type: 'text' as const, text: `Error listing Jira projects: ${error.message}` }],
-                    isError: true,
-                };
-            }
-        }
+            return {
+                content: [{ type: 'text' as const, text: `Found ${data.length} projects (showing top ${limit}):\n${projects}\n\nPlease ask the user to specify which Project Key they would like to work with.` }],
+            };
+        })
     );
 
     server.registerTool(
         'get-jira-issue',
         {
             description: 'Get details of a Jira issue',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 issueKey: z.string().describe('The key of the Jira issue (e.g. PROJ-123)'),
+                connection: connectionArg,
             },
         },
-        async ({ issueKey }) => {
-            const error = checkCredentials();
-            if (error) return error;
-
-            try {
-                const data = await client.get<any>(`/issue/${issueKey}`);
-                return {
-                    content: [{
-                        type: 'text' as const,
-                        text: `Issue: ${data.key} - ${data.fields.summary}\nStatus: ${data.fields.status.name}\nAssignee: ${data.fields.assignee ? data.fields.assignee.displayName : 'Unassigned'}\nDescription: ${data.fields.description ? JSON.stringify(data.fields.description) : 'No description'}`
-                    }],
-                };
-            } catch (error: any) {
-                return {
-                    content: [{ type: 'text' as const, text: `Error fetching Jira issue: ${error.message}` }],
-                    isError: true,
-                };
-            }
-        }
+        toolHandler({ action: 'fetching Jira issue', provider: 'jira' }, async ({ issueKey, connection }, { authInfo }) => {
+            const { client } = connect(connection, authInfo);
+            const data = await client.get<any>(`/issue/${issueKey}`);
+            return {
+                content: [{
+                    type: 'text' as const,
+                    text: `Issue: ${data.key} - ${data.fields.summary}\nStatus: ${data.fields.status.name}\nAssignee: ${data.fields.assignee ? data.fields.assignee.displayName : 'Unassigned'}\nDescription: ${data.fields.description ? descriptionText(data.fields.description) : 'No description'}`
+                }],
+            };
+        })
     );
 
     server.registerTool(
         'create-jira-issue',
         {
             description: 'Create a new Jira issue',
+            annotations: { readOnlyHint: false },
             inputSchema: {
                 projectKey: z.string().describe('The project key (e.g. PROJ)'),
                 summary: z.string().describe('Issue summary'),
-                description: z.string().describe('Issue description'),
+                description: z.string().describe('Issue description as plain text. Jira Server/Data Center connections also render Jira wiki markup (e.g. *bold*, h2. Heading).'),
                 issuetype: z.string().default('Task').describe('Issue type (Task, Bug, Story, etc.)'),
+                connection: connectionArg,
             },
         },
-        async ({ projectKey, summary, description, issuetype }) => {
-            const error = checkCredentials();
-            if (error) return error;
-
-            try {
-                const body = {
-                    fields: {
-                        project: { key: projectKey },
-                        summary: summary,
-                        description: {
-                            type: 'doc',
-                            version: 1,
-                            content: [{
-                                type: 'paragraph',
-                                content: [{ type: 'text', text: description }]
-                            }]
-                        },
-                        issuetype: { name: issuetype },
-                    },
-                };
+        toolHandler({ action: 'creating Jira issue', provider: 'jira' }, async ({ projectKey, summary, description, issuetype, connection }, { authInfo }) => {
+            const { connection: jiraConnection, client } = connect(connection, authInfo);
+            const body = {
+                fields: {
+                    project: { key: projectKey },
+                    summary: summary,
+                    // Plain and wiki descriptions are both sent as strings; only the server-side rendering differs
+                    description: descriptionFormat(jiraConnection) === 'adf' ? toAdf(description) : description,
+                    issuetype: { name: issuetype },
+                },
+            };
 
-                const data = await client.post<any>('/issue', body);
-                return {
-                    content: [{ type: 'text' as const, text: `Created Jira issue: ${data.key} (ID: ${data.id})` }],
-                };
-            } catch (error: any) {
-                return {
-                    content: [{ type: 'text' as const, text: `Error creating Jira issue: ${error.message}` }],
-                    isError: true,
-                };
-            }
-        }
+            const data = await client.post<any>('/issue', body);
+            recordTouched({ type: 'jira-issue', id: data.key, connection: jiraConnection.name });
+            return {
+                content: [{ type: 'text' as const, text: `Created Jira issue: ${data.key} (ID: ${data.id})` }],
+            };
+        })
     );
 
     server.registerTool(
         'list-project-issues',
         {
             description: 'List issues in a specific Jira project. Use this tool after you have a Project Key (from list-jira-projects) to see the issues within it. This is the preferred tool for exploring a project.',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 projectKey: z.string().describe('The key of the project (e.g. PROJ)'),
-                maxResults: z.number().optional().default(50).describe('Maximum number of issues to return'),
+                page: z.number().int().min(1).optional().describe('Page number to start from (1-based, pages of maxItems issues)'),
+                cursor: z.string().optional().describe('Continuation cursor returned by a previous call. Takes precedence over page.'),
+                maxItems: z.number().int().min(1).optional().default(50).describe('Maximum number of issues to return'),
+                connection: connectionArg,
             },
         },
-        async ({ projectKey, maxResults }) => {
-            const error = checkCredentials();
-            if (error) return error;
-
-            try {
-                // Use JQL to filter by project
-                const jql = `project = "${projectKey}" ORDER BY created DESC`;
-                const data = await client.get<any>('/search', { jql, maxResults: maxResults.toString() });
-
-                if (data.issues.length === 0) {
-                    return {
-                        content: [{ type: 'text' as const, text: `No issues found in project ${projectKey}.` }],
-                    };
-                }
+        toolHandler({ action: 'listing Jira project issues', provider: 'jira' }, async ({ projectKey, page, cursor, maxItems, connection }, { authInfo }) => {
+            const { client } = connect(connection, authInfo);
+            // Use JQL to filter by project
+            const jql = `project = "${projectKey}" ORDER BY created DESC`;
+            const data = await client.collect<any>('/search', { jql }, { itemsKey: 'issues', cursor, startCursor: startAt(page, maxItems), maxItems });
 
-                const issues = data.issues.map((i: any) =>
-                    `- [${i.key}] ${i.fields.summary} (Status: ${i.fields.status.name}, Type: ${i.fields.issuetype.name})`
-                ).join('\n');
-
-                return {
-                    content: [{ type: 'text' as const, text: `Found ${data.total} issues in project ${projectKey} (showing top ${data.issues.length}):\n${issues}` }],
-                };
-            } catch (error: any) {
+            if (data.items.length === 0) {
                 return {
-                    content: [{ type: 'text' as const, text: `Error listing issues for project ${projectKey}: ${error.message}` }],
-                    isError: true,
+                    content: [{ type: 'text' as const, text: `No issues found in project ${projectKey}.` }],
                 };
             }
-        }
+
+            const issues = data.items.map((i: any) =>
+                `- [${i.key}] ${i.fields.summary} (Status: ${i.fields.status.name}, Type: ${i.fields.issuetype.name})`
+            ).join('\n');
+
+            return {
+                content: [{ type: 'text' as const, text: `Issues in project ${projectKey}:\n${issues}${formatContinuation(data)}` }],
+            };
+        })
     );
 
     server.registerTool(
         'search-jira-issues',
         {
             description: 'Advanced search for Jira issues using JQL (Jira Query Language). Use this tool for complex filtering (e.g. by assignee, priority, or multiple criteria) that list-project-issues cannot handle. Reference these JQL guides for syntax:\n1. Overview: https://support.atlassian.com/jira-service-management-cloud/docs/what-is-advanced-search-in-jira-cloud/\n2. Functions: https://support.atlassian.com/jira-service-management-cloud/docs/jql-functions/\n3. Developer Status: https://support.atlassian.com/jira-service-management-cloud/docs/jql-developer-status/\n4. Fields: https://support.atlassian.com/jira-service-management-cloud/docs/jql-fields/\n5. Keywords: https://support.atlassian.com/jira-service-management-cloud/docs/jql-keywords/\n6. Operators: https://support.atlassian.com/jira-service-management-cloud/docs/jql-operators/',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 jql: z.string().describe('JQL search query (e.g. "project = TEST AND assignee = currentUser()")'),
-                maxResults: z.number().optional().default(10),
+                page: z.number().int().min(1).optional().describe('Page number to start from (1-based, pages of maxItems issues)'),
+                cursor: z.string().optional().describe('Continuation cursor returned by a previous call. Takes precedence over page.'),
+                maxItems: z.number().int().min(1).optional().default(10).describe('Maximum number of issues to return'),
+                connection: connectionArg,
             },
         },
-        async ({ jql, maxResults }) => {
-            const error = checkCredentials();
-            if (error) return error;
+        toolHandler({ action: 'searching Jira issues', provider: 'jira' }, async ({ jql, page, cursor, maxItems, connection }, { authInfo }) => {
+            const { client } = connect(connection, authInfo);
+            const data = await client.collect<any>('/search', { jql }, { itemsKey: 'issues', cursor, startCursor: startAt(page, maxItems), maxItems });
+            const issues = data.items.map((i: any) =>
+                `- ${i.key}: ${i.fields.summary} (${i.fields.status.name})`
+            ).join('\n');
 
-            try {
-                const data = await client.get<any>('/search', { jql, maxResults: maxResults.toString() });
-                const issues = data.issues.map((i: any) =>
-                    `- ${i.key}: ${i.fields.summary} (${i.fields.status.name})`
-                ).join('\n');
-
-                return {
-                    content: [{ type: 'text' as const, text: `Found ${data.total} issues (showing ${data.issues.length}):\n${issues}` }],
-                };
-            } catch (error: any) {
-                return {
-                    content: [{ type: 'text' as const, text: `Error searching Jira issues: ${error.message}` }],
-                    isError: true,
-                };
-            }
-        }
+            return {
+                content: [{ type: 'text' as const, text: `Issues matching query:\n${issues}${formatContinuation(data)}` }],
+            };
+        })
     );
     server.registerTool(
         'get-jira-api',
         {
-            description: 'Execute a custom GET request to the Jira API. Use this tool if you need to perform an action or retrieve data that is not covered by the other specific tools. Refer to the official Jira API documentation to construct the path and parameters: https://developer.atlassian.com/cloud/jira/platform/rest/v3/intro/',
+            description: 'Execute a custom GET request to the Jira API. Use this tool if you need to perform an action or retrieve data that is not covered by the other specific tools. Paths are relative to /rest/api/3 on Jira Cloud and /rest/api/2 on Jira Server/Data Center (see list-connections for each connection\'s flavor). Refer to the official Jira API documentation to construct the path and parameters: https://developer.atlassian.com/cloud/jira/platform/rest/v3/intro/ (Cloud) or https://docs.atlassian.com/software/jira/docs/api/REST/latest/ (Server/Data Center)',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 path: z.string().describe('The API endpoint path (e.g., "/myself", "/project/{projectIdOrKey}/components"). Do not include the base URL.'),
                 queryParams: z.record(z.string(), z.string()).optional().describe('Optional query parameters as key-value pairs.'),
+                connection: connectionArg,
             },
         },
-        async ({ path, queryParams }) => {
-            const error = checkCredentials();
-            if (error) return error;
+        toolHandler({ action: 'executing Jira API request', provider: 'jira' }, async ({ path, queryParams, connection }, { authInfo }) => {
+            const { client } = connect(connection, authInfo);
+            // Ensure path starts with /
+            const cleanPath = path.startsWith('/') ? path : `/${path}`;
+            const data = await client.get<any>(cleanPath, queryParams);
 
-            try {
-                // Ensure path starts with /
-                const cleanPath = path.startsWith('/') ? path : `/${path}`;
-                const data = await client.get<any>(cleanPath, queryParams);
-
-                return {
-                    content: [{ type: 'text' as const, text: JSON.stringify(data, null, 2) }],
-                };
-            } catch (error: any) {
-                return {
-                    content: [{ type: 'text' as const, text: `Error executing Jira API request: ${error.message}` }],
-                    isError: true,
-                };
-            }
-        }
+            return {
+                content: [{ type: 'text' as const, text: JSON.stringify(data, null, 2) }],
+            };
+        })
     );
     server.registerTool(
         'get-my-active-jira-tasks',
         {
             description: 'Get a list of active Jira tasks assigned to the current user. This tool fetches tasks that are assigned to you and not in a "Done" status category. It registers them as resources so you can access them later. Returns a summary list.',
+            annotations: { readOnlyHint: true },
             inputSchema: {
                 limit: z.number().optional().default(20).describe('Maximum number of tasks to return'),
+                connection: connectionArg,
             },
         },
-        async ({ limit }) => {
-            const error = checkCredentials();
-            if (error) return error;
-
-            try {
-                // JQL to find active tasks assigned to current user
-                const jql = 'assignee = currentUser() AND statusCategory != Done ORDER BY updated DESC';
-                const data = await client.get<any>('/search', { jql, maxResults: limit.toString() });
+        toolHandler({ action: 'fetching active Jira tasks', provider: 'jira' }, async ({ limit, connection }, { authInfo }) => {
+            const { connection: jiraConnection, client } = connect(connection, authInfo);
+            // JQL to find active tasks assigned to current user
+            const jql = 'assignee = currentUser() AND statusCategory != Done ORDER BY updated DESC';
+            const data = await client.collect<any>('/search', { jql }, { itemsKey: 'issues', maxItems: limit });
 
-                if (data.issues.length === 0) {
-                    return {
-                        content: [{ type: 'text' as const, text: 'You have no active Jira tasks assigned.' }],
-                    };
-                }
+            if (data.items.length === 0) {
+                return {
+                    content: [{ type: 'text' as const, text: 'You have no active Jira tasks assigned.' }],
+                };
+            }
 
-                const issues = data.issues.map((i: any) => {
-                    const issueKey = i.key;
-                    const summary = i.fields.summary;
-                    const status = i.fields.status.name;
-                    const projectKey = i.fields.project.key;
-                    const selfLink = i.self; // API link
-                    // Construct a web link if possible, or just use API link
-                    const webUrl = `https://${config.JIRA_DOMAIN}/browse/${issueKey}`;
+            const issues = data.items.map((i: any) => {
+                const issueKey = i.key;
+                const summary = i.fields.summary;
+                const status = i.fields.status.name;
+                const projectKey = i.fields.project.key;
+                const selfLink = i.self; // API link
+                // Construct a web link if possible, or just use API link
+                const webUrl = `${jiraSiteUrl(jiraConnection)}/browse/${issueKey}`;
 
-                    // Register as a resource
-                    resourceManager.registerResource({
-                        uri: `jira://${projectKey}/${issueKey}`,
-                        name: `${issueKey}: ${summary}`,
-                        mimeType: 'application/x-jira-issue',
-                        text: `Summary: ${summary}\nStatus: ${status}\nWeb Link: ${webUrl}\n\nUse 'get-jira-issue' with key '${issueKey}' to see full details.`,
-                        isFolder: false,
-                        webUrl: webUrl,
-                        projectPath: projectKey
-                    });
+                // Register as a resource
+                resourceManager.registerResource({
+                    uri: `jira://${namespacedKey(jiraConnection.name, projectKey)}/${issueKey}`,
+                    name: `${issueKey}: ${summary}`,
+                    mimeType: 'application/x-jira-issue',
+                    text: `Summary: ${summary}\nStatus: ${status}\nWeb Link: ${webUrl}\n\nUse 'get-jira-issue' with key '${issueKey}' to see full details.`,
+                    isFolder: false,
+                    webUrl: webUrl,
+                    projectPath: namespacedKey(jiraConnection.name, projectKey)
+                });
 
-                    return `- [${issueKey}] ${summary} (Status: ${status})`;
-                }).join('\n');
+                return `- [${issueKey}] ${summary} (Status: ${status})`;
+            }).join('\n');
+            resourceManager.notifyListChanged();
 
-                return {
-                    content: [{ type: 'text' as const, text: `Found ${data.total} active tasks (showing top ${data.issues.length}):\n${issues}\n\nThese tasks have been registered as resources. You can access them or use 'get-jira-issue' for more details.` }],
-                };
-            } catch (error: any) {
-                return {
-                    content: [{ type: 'text' as const, text: `Error fetching active tasks: ${error.message}` }],
-                    isError: true,
-                };
-            }
-        }
+            return {
+                content: [{ type: 'text' as const, text: `Found ${data.total ?? data.items.length} active tasks (showing top ${data.items.length}):\n${issues}\n\nThese tasks have been registered as resources. You can access them or use 'get-jira-issue' for more details.` }],
+            };
+        })
     );
 }
@@ -0,0 +1,130 @@
+import { fileConfig, SearchSettings } from '../config.js';
+import { globToRegExp } from '../utils/glob.js';
+
+export interface AnalyzedToken {
+    term: string;
+    position: number; // Index of the source word; tokens derived from one word share it
+    form: string; // The lowercased word (or word part) before stemming
+}
+
+export interface AnalyzeOptions {
+    // Index mode also emits the parts of compound words ("HTTPServer" ->
+    // http, server, httpserver), so that queries for any of them match
+    mode: 'index' | 'query';
+    // Code chunks drop language keywords in addition to prose stop words
+    kind: 'code' | 'prose';
+}
+
+export const DEFAULT_PROSE_STOP_WORDS = [
+    'the', 'is', 'at', 'of', 'on', 'and', 'a', 'an', 'in', 'to', 'for', 'with', 'by', 'about', 'as',
+    'this', 'that', 'these', 'those', 'are', 'was', 'were', 'be', 'been', 'being',
+    'have', 'has', 'had', 'do', 'does', 'did', 'but', 'if', 'or', 'because', 'until', 'while',
+];
+
+export const DEFAULT_CODE_STOP_WORDS = [
+    'function', 'class', 'const', 'var', 'let', 'return', 'import', 'export', 'default',
+];
+
+// Compounds with more parts only index their parts and the whole word
+const MAX_COMPOUND_PARTS = 4;
+
+// Acronym-aware case split: "getHTTPResponse2" -> get, HTTP, Response2
+const CASE_PARTS = /\p{Lu}+(?=\p{Lu}\p{Ll})|\p{Lu}?[\p{Ll}\p{N}]+|\p{Lu}+\p{N}*|\p{N}+/gu;
+
+/**
+ * Light English stemmer that only conflates plurals (after Harman's
+ * S-stemmer): "policies" -> "policy", "devices" -> "device". Stronger
+ * stemmers mangle identifiers too often.
+ */
+export function stem(term: string): string {
+    if (term.length <= 3 || /\p{N}/u.test(term)) return term;
+    if (term.endsWith('ies') && !term.endsWith('eies') && !term.endsWith('aies')) return `${term.slice(0, -3)}y`;
+    if (term.endsWith('es') && !/(aes|ees|oes)$/.test(term) && /(ches|shes|sses|xes|zes)$/.test(term)) return term.slice(0, -2);
+    if (term.endsWith('s') && !/(us|ss|is)$/.test(term)) return term.slice(0, -1);
+    return term;
+}
+
+/**
+ * Turns text into search terms: Unicode word splitting, case splitting,
+ * lowercasing, stop word removal and stemming. Documents and queries go
+ * through the same analyzer so that their terms line up.
+ */
+export class Analyzer {
+    private proseStopWords: Set<string>;
+    private codeStopWords: Set<string>;
+    private synonymGroups: string[][][]; // Each group: the analyzed entries that mean the same
+
+    constructor(private settings: SearchSettings, synonyms: string[][] = []) {
+        this.proseStopWords = new Set(settings.stopWords.prose ?? DEFAULT_PROSE_STOP_WORDS);
+        this.codeStopWords = new Set(settings.stopWords.code ?? DEFAULT_CODE_STOP_WORDS);
+        this.synonymGroups = synonyms.map(group => group.map(entry => this.terms(entry, { mode: 'query', kind: 'prose' })).filter(entry => entry.length > 0));
+    }
+
+    analyze(text: string, options: AnalyzeOptions): AnalyzedToken[] {
+        const tokens: AnalyzedToken[] = [];
+        const words = text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+        words.forEach((word, position) => {
+            const forms = new Set([word.toLowerCase()]);
+            if (options.mode === 'index') {
+                const parts = (word.match(CASE_PARTS) ?? []).map(part => part.toLowerCase());
+                if (parts.length > 1) {
+                    parts.forEach(part => forms.add(part));
+                    if (parts.length <= MAX_COMPOUND_PARTS) {
+                        for (let start = 0; start < parts.length; start++) {
+                            for (let end = start + 2; end <= parts.length; end++) forms.add(parts.slice(start, end).join(''));
+                        }
+                    }
+                }
+            }
+
+            for (const form of forms) {
+                const term = this.settings.stemming ? stem(form) : form;
+                if (this.keeps(form, options.kind) && this.keeps(term, options.kind)) tokens.push({ term, position, form });
+            }
+        });
+
+        return tokens;
+    }
+
+    terms(text: string, options: AnalyzeOptions): string[] {
+        return this.analyze(text, options).map(token => token.term);
+    }
+
+    /**
+     * Term sequences configured as synonyms of the given (analyzed) terms.
+     */
+    synonyms(terms: string[]): string[][] {
+        const key = terms.join(' ');
+        return this.synonymGroups
+            .filter(group => group.some(entry => entry.join(' ') === key))
+            .flatMap(group => group.filter(entry => entry.join(' ') !== key));
+    }
+
+    private keeps(term: string, kind: AnalyzeOptions['kind']): boolean {
+        if (Array.from(term).length < this.settings.minTermLength) return false;
+        if (this.proseStopWords.has(term)) return false;
+        return kind === 'prose' || !this.codeStopWords.has(term);
+    }
+}
+
+const analyzers = new Map<string, Analyzer>();
+
+/**
+ * Analyzer for a project, with the synonym groups configured for it (and
+ * for all projects) in the config file.
+ */
+export function analyzerFor(projectId?: string): Analyzer {
+    const key = projectId ?? '';
+    let analyzer = analyzers.get(key);
+    if (!analyzer) {
+        const settings = fileConfig.search;
+        // Keys are project path globs; named connections prefix the path with "<connection>:"
+        const projectPath = key.replace(/^[^:/]+:/, '');
+        const synonyms = Object.entries(settings.synonyms)
+            .filter(([pattern]) => pattern === '*' || (!!projectId && [key, projectPath].some(id => globToRegExp(pattern).test(id))))
+            .flatMap(([, groups]) => groups);
+        analyzers.set(key, analyzer = new Analyzer(settings, synonyms));
+    }
+    return analyzer;
+}
@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { config } from '../config.js';
+import { isSecretName, REDACTED, redactSecrets } from '../utils/redact.js';
+import { userIdOf } from './credentials.js';
+
+// Longer string arguments (issue descriptions, JQL) are cut to keep entries small
+const MAX_ARG_LENGTH = 1000;
+const MAX_ERROR_LENGTH = 500;
+
+// Arguments that name an upstream object, by the kind of object they name
+const OBJECT_ARGS: Record<string, string> = {
+    issueKey: 'jira-issue',
+    projectKey: 'jira-project',
+    projectId: 'gitlab-project',
+    project: 'gitlab-project',
+    filePath: 'gitlab-file',
+    fileKey: 'figma-file',
+    teamId: 'figma-team',
+    url: 'url',
+};
+
+export interface AuditObject {
+    type: string; // e.g. 'jira-issue', 'gitlab-project'
+    id: string;
+    connection?: string;
+}
+
+export interface AuditEntry {
+    timestamp: string;
+    sessionId?: string;
+    userId?: string;
+    tool: string;
+    args: Record<string, unknown>;
+    durationMs: number;
+    outcome: 'success' | 'error';
+    error?: string;
+    objects: AuditObject[];
+}
+
+export interface AuditQuery {
+    tool?: string;
+    userId?: string;
+    sessionId?: string;
+    outcome?: 'success' | 'error';
+    since?: Date;
+    limit: number;
+}
+
+// Objects a running tool call reports beyond its arguments (e.g. a created issue)
+const touchedObjects = new AsyncLocalStorage<AuditObject[]>();
+
+/**
+ * Adds upstream objects to the audit entry of the tool call in progress.
+ * Does nothing outside a tool call.
+ */
+export function recordTouched(...objects: AuditObject[]) {
+    touchedObjects.getStore()?.push(...objects);
+}
+
+/**
+ * Append-only JSONL log of tool calls, rotated by size into
+ * `<file>.1` (newest) … `<file>.<maxFiles>` (oldest).
+ */
+export class AuditLog {
+    private size: number;
+
+    constructor(private filePath: string, private maxBytes: number, private maxFiles: number) {
+        try {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            this.size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+        } catch (error) {
+            console.error(`Failed to open audit log ${filePath}:`, error);
+            this.size = 0;
+        }
+    }
+
+    record(entry: AuditEntry) {
+        const line = `${JSON.stringify(entry)}\n`;
+        try {
+            if (this.size > 0 && this.size + Buffer.byteLength(line) > this.maxBytes) {
+                this.rotate();
+            }
+            // Synchronous appends keep entries whole and in order
+            fs.appendFileSync(this.filePath, line);
+            this.size += Buffer.byteLength(line);
+        } catch (error) {
+            console.error('Failed to write audit log entry:', error);
+        }
+    }
+
+    /**
+     * Most recent matching entries first, searching rotated files as needed.
+     */
+    query(query: AuditQuery): AuditEntry[] {
+        const results: AuditEntry[] = [];
+        for (const file of this.files()) {
+            if (!fs.existsSync(file)) continue;
+            const lines = fs.readFileSync(file, 'utf-8').split('\n');
+            for (let i = lines.length - 1; i >= 0; i--) {
+                if (!lines[i]) continue;
+
+                let entry: AuditEntry;
+                try {
+                    entry = JSON.parse(lines[i]);
+                } catch (e) {
+                    continue; // Skip a partially written line
+                }
+
+                // Entries are written on completion, so order by start time is only approximate
+                if (query.since && new Date(entry.timestamp) < query.since) continue;
+                if (query.tool && entry.tool !== query.tool) continue;
+                if (query.userId && entry.userId !== query.userId) continue;
+                if (query.sessionId && entry.sessionId !== query.sessionId) continue;
+                if (query.outcome && entry.outcome !== query.outcome) continue;
+
+                results.push(entry);
+                if (results.length >= query.limit) return results;
+            }
+        }
+        return results;
+    }
+
+    private files(): string[] {
+        return [this.filePath, ...Array.from({ length: this.maxFiles }, (_, i) => `${this.filePath}.${i + 1}`)];
+    }
+
+    private rotate() {
+        const files = this.files();
+        fs.rmSync(files[files.length - 1], { force: true });
+        for (let i = files.length - 2; i >= 0; i--) {
+            if (fs.existsSync(files[i])) fs.renameSync(files[i], files[i + 1]);
+        }
+        // With maxFiles = 0 the current file was just removed
+        this.size = 0;
+    }
+
+    /**
+     * Copies the arguments with credentials removed and long values shortened.
+     */
+    static redactArgs(args: unknown): Record<string, unknown> {
+        if (!args || typeof args !== 'object') return {};
+        const redact = (value: unknown): unknown => {
+            if (typeof value === 'string') {
+                const clean = redactSecrets(value);
+                return clean.length > MAX_ARG_LENGTH ? `${clean.slice(0, MAX_ARG_LENGTH)}… (${clean.length} chars)` : clean;
+            }
+            if (Array.isArray(value)) return value.map(redact);
+            if (value && typeof value === 'object') {
+                return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, isSecretName(key) ? REDACTED : redact(item)]));
+            }
+            return value;
+        };
+        return redact(args) as Record<string, unknown>;
+    }
+
+    /**
+     * Upstream objects named by the arguments of a call.
+     */
+    static objectsFromArgs(args: unknown): AuditObject[] {
+        if (!args || typeof args !== 'object') return [];
+        const values = args as Record<string, unknown>;
+        const connection = typeof values.connection === 'string' ? values.connection : undefined;
+        return Object.entries(OBJECT_ARGS)
+            .filter(([name]) => typeof values[name] === 'string')
+            .map(([name, type]) => ({ type, id: values[name] as string, ...(connection ? { connection } : {}) }));
+    }
+}
+
+/**
+ * Wraps `server.registerTool` so that every tool registered afterwards writes
+ * an audit entry per call. Apply it before the tool policy so that refused
+ * calls are logged too.
+ */
+export function auditTools(server: McpServer, log: AuditLog) {
+    const registerTool = server.registerTool.bind(server) as (...args: any[]) => any;
+
+    (server as any).registerTool = (name: string, toolConfig: any, callback: (...args: any[]) => any) =>
+        registerTool(name, toolConfig, async (...args: any[]) => {
+            // Tools without an input schema receive only the request context
+            const params = toolConfig.inputSchema ? args[0] : undefined;
+            const extra = args[args.length - 1];
+            const objects: AuditObject[] = [];
+            const startedAt = Date.now();
+            let result: any;
+            let thrown: unknown;
+
+            try {
+                result = await touchedObjects.run(objects, () => callback(...args));
+                return result;
+            } catch (error) {
+                thrown = error;
+                throw error;
+            } finally {
+                const failed = thrown !== undefined || !!result?.isError;
+                const message = thrown !== undefined
+                    ? (thrown instanceof Error ? thrown.message : String(thrown))
+                    : result?.isError ? result.content?.find((c: any) => c.type === 'text')?.text : undefined;
+
+                log.record({
+                    timestamp: new Date(startedAt).toISOString(),
+                    sessionId: extra?.sessionId,
+                    userId: userIdOf(extra?.authInfo),
+                    tool: name,
+                    args: AuditLog.redactArgs(params),
+                    durationMs: Date.now() - startedAt,
+                    outcome: failed ? 'error' : 'success',
+                    ...(failed && message ? { error: redactSecrets(String(message)).slice(0, MAX_ERROR_LENGTH) } : {}),
+                    objects: [...AuditLog.objectsFromArgs(params), ...objects],
+                });
+            }
+        });
+}
+
+export const auditLog = new AuditLog(config.AUDIT_LOG_FILE, config.AUDIT_LOG_MAX_BYTES, config.AUDIT_LOG_MAX_FILES);
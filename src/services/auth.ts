@@ -0,0 +1,137 @@
+import express, { RequestHandler } from 'express';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { InvalidTokenError, ServerError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { getOAuthProtectedResourceMetadataUrl } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { config } from '../config.js';
+import { CredentialStore, credentialStore } from './credentials.js';
+
+// Static tokens never expire; the middleware requires an expiry, so each verification grants this long
+const STATIC_TOKEN_LIFETIME_S = 60 * 60;
+
+/**
+ * Accepts the bearer tokens listed per user in the credentials file.
+ */
+export class StaticTokenVerifier implements OAuthTokenVerifier {
+    constructor(private store: CredentialStore) {}
+
+    async verifyAccessToken(token: string): Promise<AuthInfo> {
+        const user = this.store.authenticate(token);
+        if (!user) throw new InvalidTokenError('Unknown access token');
+        return {
+            token,
+            clientId: user.id,
+            scopes: [],
+            expiresAt: Math.floor(Date.now() / 1000) + STATIC_TOKEN_LIFETIME_S,
+            extra: { userId: user.id },
+        };
+    }
+}
+
+export interface IntrospectionOptions {
+    introspectionUrl: string;
+    clientId?: string;
+    clientSecret?: string;
+    userClaim: string; // Introspection field naming the user in the credentials file
+    resource: URL; // This server's resource identifier, checked against the token audience
+}
+
+/**
+ * Validates OAuth 2.1 access tokens with the authorization server's
+ * RFC 7662 introspection endpoint.
+ */
+export class IntrospectionTokenVerifier implements OAuthTokenVerifier {
+    constructor(private options: IntrospectionOptions) {}
+
+    async verifyAccessToken(token: string): Promise<AuthInfo> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Accept': 'application/json',
+        };
+        if (this.options.clientId) {
+            headers['Authorization'] = `Basic ${Buffer.from(`${this.options.clientId}:${this.options.clientSecret ?? ''}`).toString('base64')}`;
+        }
+
+        let data: any;
+        try {
+            const response = await fetch(this.options.introspectionUrl, {
+                method: 'POST',
+                headers,
+                body: new URLSearchParams({ token, token_type_hint: 'access_token' }),
+            });
+            if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+            data = await response.json();
+        } catch (error) {
+            console.error('Token introspection failed:', error);
+            throw new ServerError('Token introspection failed');
+        }
+
+        if (!data.active) throw new InvalidTokenError('Access token is not active');
+
+        // Tokens issued for another resource must not be accepted (RFC 8707)
+        const audiences = [data.aud].flat().filter((aud): aud is string => typeof aud === 'string');
+        if (audiences.length > 0 && !audiences.some(aud => this.isOwnResource(aud))) {
+            throw new InvalidTokenError('Access token was not issued for this server');
+        }
+
+        const userId = data[this.options.userClaim];
+        if (typeof userId !== 'string' || !userId) {
+            throw new InvalidTokenError(`Access token has no "${this.options.userClaim}" claim`);
+        }
+
+        return {
+            token,
+            clientId: typeof data.client_id === 'string' ? data.client_id : userId,
+            scopes: typeof data.scope === 'string' ? data.scope.split(' ').filter(Boolean) : [],
+            expiresAt: typeof data.exp === 'number' ? data.exp : undefined,
+            resource: this.options.resource,
+            extra: { userId },
+        };
+    }
+
+    private isOwnResource(audience: string): boolean {
+        const strip = (url: string) => url.replace(/#.*$/, '').replace(/\/+$/, '');
+        return strip(audience) === strip(this.options.resource.href) || strip(audience) === strip(this.options.resource.origin);
+    }
+}
+
+/**
+ * Sets up authentication for the /mcp endpoint according to MCP_AUTH and
+ * returns the middleware to put in front of it (none when auth is disabled).
+ * In OAuth mode the protected resource metadata is served for client discovery.
+ */
+export function createAuthMiddleware(app: express.Express): RequestHandler[] {
+    if (config.MCP_AUTH === 'none') return [];
+
+    const resource = new URL('/mcp', config.MCP_PUBLIC_URL ?? `http://localhost:${config.PORT}`);
+    const requiredScopes = (config.MCP_OAUTH_REQUIRED_SCOPES ?? '').split(',').map(scope => scope.trim()).filter(Boolean);
+
+    if (config.MCP_AUTH === 'token') {
+        return [requireBearerAuth({ verifier: new StaticTokenVerifier(credentialStore) })];
+    }
+
+    const resourceMetadataUrl = getOAuthProtectedResourceMetadataUrl(resource);
+    const metadata = {
+        resource: resource.href,
+        authorization_servers: config.MCP_OAUTH_ISSUER ? [config.MCP_OAUTH_ISSUER] : [],
+        scopes_supported: requiredScopes.length > 0 ? requiredScopes : undefined,
+        bearer_methods_supported: ['header'],
+        resource_name: 'PM7 MCP Server',
+    };
+    // RFC 9728 path-suffixed location, plus the root one older clients look for
+    app.get(new URL(resourceMetadataUrl).pathname, (_req, res) => res.json(metadata));
+    app.get('/.well-known/oauth-protected-resource', (_req, res) => res.json(metadata));
+
+    return [requireBearerAuth({
+        verifier: new IntrospectionTokenVerifier({
+            introspectionUrl: config.MCP_OAUTH_INTROSPECTION_URL!,
+            clientId: config.MCP_OAUTH_CLIENT_ID,
+            clientSecret: config.MCP_OAUTH_CLIENT_SECRET,
+            userClaim: config.MCP_OAUTH_USER_CLAIM,
+            resource,
+        }),
+        requiredScopes,
+        resourceMetadataUrl,
+    })];
+}
@@ -0,0 +1,470 @@
+import ts from 'typescript';
+
+export type SymbolKind =
+    | 'function' | 'class' | 'interface' | 'type' | 'enum' | 'struct' | 'namespace' | 'variable'
+    | 'method' | 'constructor' | 'accessor';
+
+export interface CodeSymbol {
+    name: string;
+    kind: SymbolKind;
+    signature: string; // The declaration up to its body, on one line
+    container?: string; // Enclosing class (in Go, the receiver type) of a member
+    startLine: number; // Including doc comments, decorators and annotations
+    endLine: number;
+}
+
+const MAX_SIGNATURE_LENGTH = 200;
+// Variables shorter than this stay with the code around them; longer ones
+// (tables, schemas, configuration objects) are symbols of their own
+const MIN_VARIABLE_LINES = 3;
+
+/**
+ * Top-level symbols and class members of a source file, in line order. A
+ * class is followed by its members; its own range covers them. Undefined
+ * for languages without a parser here.
+ */
+export function extractSymbols(filePath: string, content: string): CodeSymbol[] | undefined {
+    const extension = filePath.split('.').pop()?.toLowerCase() ?? '';
+    switch (extension) {
+        case 'ts': case 'tsx': case 'mts': case 'cts':
+        case 'js': case 'jsx': case 'mjs': case 'cjs':
+            return typescriptSymbols(filePath, extension, content);
+        case 'py':
+            return pythonSymbols(content);
+        case 'go':
+            return goSymbols(content);
+        case 'java':
+            return javaSymbols(content);
+        default:
+            return undefined;
+    }
+}
+
+function signature(text: string): string {
+    const collapsed = text.replace(/\s+/g, ' ').trim();
+    return collapsed.length > MAX_SIGNATURE_LENGTH ? `${collapsed.slice(0, MAX_SIGNATURE_LENGTH - 3)}...` : collapsed;
+}
+
+function bySource(a: CodeSymbol, b: CodeSymbol): number {
+    // A container sorts before its first member when both start on one line
+    return a.startLine - b.startLine || b.endLine - a.endLine;
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+    ts: ts.ScriptKind.TS, mts: ts.ScriptKind.TS, cts: ts.ScriptKind.TS, tsx: ts.ScriptKind.TSX,
+    js: ts.ScriptKind.JS, mjs: ts.ScriptKind.JS, cjs: ts.ScriptKind.JS, jsx: ts.ScriptKind.JSX,
+};
+
+/**
+ * TypeScript and JavaScript, with the compiler's parser (syntax only, no
+ * type checking). Parse errors do not throw; the parser recovers.
+ */
+function typescriptSymbols(filePath: string, extension: string, content: string): CodeSymbol[] {
+    const source = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, SCRIPT_KINDS[extension]);
+    const symbols: CodeSymbol[] = [];
+    const lineOf = (position: number) => source.getLineAndCharacterOfPosition(position).line + 1;
+
+    // Line comments directly above a declaration belong to it; JSDoc is
+    // already included by getStart(source, true)
+    const startOf = (node: ts.Node) => {
+        let start = node.getStart(source, true);
+        const comments = ts.getLeadingCommentRanges(content, node.getFullStart()) ?? [];
+        for (const comment of [...comments].reverse()) {
+            if (comment.end > start || /\n[ \t]*\n/.test(content.slice(comment.end, start))) break;
+            start = comment.pos;
+        }
+        return start;
+    };
+
+    const add = (node: ts.Node, name: string, kind: SymbolKind, bodyStart?: number, container?: string) => {
+        // Decorators are part of the node; the signature starts after them
+        const decorators = ts.canHaveDecorators(node) ? ts.getDecorators(node) : undefined;
+        const signatureStart = decorators?.length ? decorators[decorators.length - 1].end : node.getStart(source);
+        symbols.push({
+            name,
+            kind,
+            signature: signature(content.slice(signatureStart, bodyStart ?? node.getEnd())),
+            container,
+            startLine: lineOf(startOf(node)),
+            endLine: lineOf(node.getEnd()),
+        });
+    };
+
+    const isFunctionValue = (node: ts.Node | undefined): node is ts.ArrowFunction | ts.FunctionExpression =>
+        !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+
+    const addClass = (node: ts.ClassLikeDeclaration, name: string) => {
+        // members.pos is just after the opening brace
+        add(node, name, 'class', node.members.pos - 1);
+        for (const member of node.members) {
+            const memberName = member.name?.getText(source) ?? '';
+            if (ts.isConstructorDeclaration(member)) add(member, 'constructor', 'constructor', member.body?.getStart(source), name);
+            else if (ts.isMethodDeclaration(member)) add(member, memberName, 'method', member.body?.getStart(source), name);
+            else if (ts.isGetAccessor(member) || ts.isSetAccessor(member)) add(member, memberName, 'accessor', member.body?.getStart(source), name);
+            else if (ts.isPropertyDeclaration(member) && isFunctionValue(member.initializer)) {
+                add(member, memberName, 'method', member.initializer.body.getStart(source), name);
+            }
+            // Fields stay with the class declaration or the code around them
+        }
+    };
+
+    for (const statement of source.statements) {
+        if (ts.isFunctionDeclaration(statement)) {
+            add(statement, statement.name?.text ?? 'default', 'function', statement.body?.getStart(source));
+        } else if (ts.isClassDeclaration(statement)) {
+            addClass(statement, statement.name?.text ?? 'default');
+        } else if (ts.isInterfaceDeclaration(statement)) {
+            add(statement, statement.name.text, 'interface', statement.members.pos - 1);
+        } else if (ts.isTypeAliasDeclaration(statement)) {
+            add(statement, statement.name.text, 'type');
+        } else if (ts.isEnumDeclaration(statement)) {
+            add(statement, statement.name.text, 'enum', statement.members.pos - 1);
+        } else if (ts.isModuleDeclaration(statement)) {
+            add(statement, statement.name.getText(source), 'namespace', statement.body?.getStart(source));
+        } else if (ts.isVariableStatement(statement)) {
+            const declarations = statement.declarationList.declarations;
+            for (const declaration of declarations) {
+                // A single declaration takes the statement, with its `export const` and comments
+                const node = declarations.length === 1 ? statement : declaration;
+                const name = declaration.name.getText(source);
+                const initializer = declaration.initializer;
+                if (isFunctionValue(initializer)) {
+                    add(node, name, 'function', initializer.body.getStart(source));
+                } else if (initializer && ts.isClassExpression(initializer)) {
+                    addClass(initializer, name);
+                } else if (lineOf(node.getEnd()) - lineOf(node.getStart(source)) + 1 >= MIN_VARIABLE_LINES) {
+                    add(node, name, 'variable', initializer?.getStart(source));
+                }
+            }
+        }
+    }
+
+    // Overload signatures and their implementation are one symbol
+    const merged: CodeSymbol[] = [];
+    for (const symbol of symbols.sort(bySource)) {
+        const previous = merged[merged.length - 1];
+        if (previous && previous.name === symbol.name && previous.kind === symbol.kind && previous.container === symbol.container
+            && symbol.startLine <= previous.endLine + 1) {
+            previous.endLine = Math.max(previous.endLine, symbol.endLine);
+        } else {
+            merged.push(symbol);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Python, by indentation. Lines inside triple-quoted strings do not end a
+ * block, whatever their indentation.
+ */
+function pythonSymbols(content: string): CodeSymbol[] {
+    const lines = content.split('\n');
+    const inString = pythonStringLines(content, lines.length);
+    const indentOf = (line: string) => line.length - line.trimStart().length;
+    const isCode = (i: number) => !inString[i] && lines[i].trim() !== '' && !lines[i].trimStart().startsWith('#');
+    const symbols: CodeSymbol[] = [];
+
+    // Last line of the block opened at `header`: the last line that is
+    // indented deeper (or inside a string) before the first code line that is not
+    const blockEnd = (header: number, indent: number) => {
+        let end = header;
+        for (let i = header + 1; i < lines.length; i++) {
+            if (isCode(i) && indentOf(lines[i]) <= indent) break;
+            if (inString[i] || (lines[i].trim() !== '' && indentOf(lines[i]) > indent)) end = i;
+        }
+        return end;
+    };
+
+    // The header may span lines: up to the colon with all brackets closed
+    const headerText = (header: number) => {
+        let depth = 0;
+        const parts: string[] = [];
+        for (let i = header; i < lines.length; i++) {
+            const line = lines[i].replace(/#.*$/, '');
+            parts.push(line);
+            for (const char of line) depth += '([{'.includes(char) ? 1 : ')]}'.includes(char) ? -1 : 0;
+            if (depth <= 0 && line.trimEnd().endsWith(':')) break;
+        }
+        return parts.join(' ').trim().replace(/:$/, '');
+    };
+
+    // Decorators and comments directly above a definition belong to it
+    const startOf = (header: number, indent: number) => {
+        let start = header;
+        while (start > 0 && !inString[start - 1] && indentOf(lines[start - 1]) === indent && /^\s*[@#]/.test(lines[start - 1])) start--;
+        return start;
+    };
+
+    const DEFINITION = /^(\s*)(?:async\s+)?(def|class)\s+(\w+)/;
+
+    const scan = (from: number, to: number, indent: number, container?: string) => {
+        for (let i = from; i <= to; i++) {
+            const match = isCode(i) ? lines[i].match(DEFINITION) : null;
+            if (!match || match[1].length !== indent) continue;
+
+            const end = blockEnd(i, indent);
+            const isClass = match[2] === 'class';
+            const name = match[3];
+            const kind: SymbolKind = isClass ? 'class' : !container ? 'function' : name === '__init__' ? 'constructor' : 'method';
+            symbols.push({ name, kind, signature: signature(headerText(i)), container, startLine: startOf(i, indent) + 1, endLine: end + 1 });
+
+            // Members of top-level classes, at the indentation of the class body
+            if (isClass && !container) {
+                const body = lines.findIndex((_, j) => j > i && j <= end && isCode(j) && indentOf(lines[j]) > indent);
+                if (body !== -1) scan(body, end, indentOf(lines[body]), name);
+            }
+            i = end;
+        }
+    };
+
+    scan(0, lines.length - 1, 0);
+    return symbols.sort(bySource);
+}
+
+/**
+ * For each line, whether it starts inside a triple-quoted string.
+ */
+function pythonStringLines(content: string, lineCount: number): boolean[] {
+    const result = new Array<boolean>(lineCount).fill(false);
+    let line = 0;
+    let quote: string | undefined; // Delimiter of the string being read
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (char === '\n') {
+            line++;
+            if (quote && quote.length === 3) result[line] = true;
+            else quote = undefined; // Unterminated single-line string
+            continue;
+        }
+        if (quote) {
+            if (char === '\\') i++;
+            else if (content.startsWith(quote, i)) {
+                i += quote.length - 1;
+                quote = undefined;
+            }
+        } else if (char === '#') {
+            while (i + 1 < content.length && content[i + 1] !== '\n') i++;
+        } else if (char === '"' || char === "'") {
+            quote = content.startsWith(char.repeat(3), i) ? char.repeat(3) : char;
+            i += quote.length - 1;
+        }
+    }
+    return result;
+}
+
+/**
+ * Replaces comments and string literals with spaces (keeping line breaks),
+ * so that brackets and keywords in them are not mistaken for code.
+ */
+function maskCode(content: string, rawQuote?: string): string {
+    const masked = content.split('');
+    const blank = (from: number, to: number) => {
+        for (let j = from; j < to; j++) if (masked[j] !== '\n') masked[j] = ' ';
+    };
+
+    for (let i = 0; i < content.length; i++) {
+        const start = i;
+        if (content.startsWith('//', i)) {
+            const end = content.indexOf('\n', i);
+            i = end === -1 ? content.length : end;
+        } else if (content.startsWith('/*', i)) {
+            const end = content.indexOf('*/', i + 2);
+            i = end === -1 ? content.length : end + 2;
+        } else if (content.startsWith('"""', i)) { // Java text block
+            const end = content.indexOf('"""', i + 3);
+            i = end === -1 ? content.length : end + 3;
+        } else if (content[i] === '"' || content[i] === "'") {
+            const quote = content[i];
+            for (i++; i < content.length && content[i] !== quote && content[i] !== '\n'; i++) {
+                if (content[i] === '\\') i++;
+            }
+            i++;
+        } else if (rawQuote && content[i] === rawQuote) {
+            const end = content.indexOf(rawQuote, i + 1);
+            i = end === -1 ? content.length : end + 1;
+        } else {
+            continue;
+        }
+        blank(start, i);
+        i--;
+    }
+    return masked.join('');
+}
+
+function lineStarts(content: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < content.length; i++) if (content[i] === '\n') starts.push(i + 1);
+    return starts;
+}
+
+/**
+ * Offset -> 1-based line lookup.
+ */
+function lineIndex(content: string): (offset: number) => number {
+    const starts = lineStarts(content);
+    return (offset: number) => {
+        let low = 0;
+        let high = starts.length - 1;
+        while (low < high) {
+            const middle = (low + high + 1) >> 1;
+            if (starts[middle] <= offset) low = middle;
+            else high = middle - 1;
+        }
+        return low + 1;
+    };
+}
+
+/**
+ * First line of the comments directly above `line` (1-based), or `line`.
+ */
+function withLeadingComments(lines: string[], line: number): number {
+    let start = line;
+    while (start > 1 && /^\s*(\/\/|\/\*|\*)/.test(lines[start - 2])) start--;
+    return start;
+}
+
+/**
+ * Go, from top-level declarations starting at column 0. A declaration ends
+ * at the first line break outside brackets.
+ */
+function goSymbols(content: string): CodeSymbol[] {
+    const masked = maskCode(content, '`');
+    const lines = content.split('\n');
+    const maskedLines = masked.split('\n');
+    const starts = lineStarts(content);
+    const symbols: CodeSymbol[] = [];
+
+    for (let i = 0; i < maskedLines.length; i++) {
+        const offset = starts[i];
+        const match = maskedLines[i].match(/^(func|type|var|const)\s+(?:\(\s*(?:\w+\s+)?\*?\s*(\w+)[^)]*\)\s*)?(\w+)?/);
+        if (!match || !match[3]) continue; // Not a declaration, or a var/const/type group
+
+        // Up to the first line break outside brackets
+        let depth = 0;
+        let bodyStart: number | undefined;
+        let end = offset;
+        for (; end < masked.length; end++) {
+            const char = masked[end];
+            if (char === '{' && depth === 0 && bodyStart === undefined) bodyStart = end;
+            if ('([{'.includes(char)) depth++;
+            else if (')]}'.includes(char)) depth--;
+            else if (char === '\n' && depth <= 0) break;
+        }
+        const endLine = i + 1 + (masked.slice(offset, end).match(/\n/g)?.length ?? 0);
+
+        const [, keyword, receiver, name] = match;
+        let kind: SymbolKind;
+        if (keyword === 'func') kind = receiver ? 'method' : 'function';
+        else if (keyword === 'type') kind = /^type\s+\w+(\[[^\]]*\])?\s+struct\b/.test(maskedLines[i]) ? 'struct'
+            : /^type\s+\w+(\[[^\]]*\])?\s+interface\b/.test(maskedLines[i]) ? 'interface' : 'type';
+        else kind = 'variable';
+
+        if (kind === 'variable' && endLine - i < MIN_VARIABLE_LINES) continue;
+        symbols.push({
+            name,
+            kind,
+            signature: signature(content.slice(offset, bodyStart ?? offset + lines[i].length)),
+            container: receiver,
+            startLine: withLeadingComments(lines, i + 1),
+            endLine,
+        });
+        i = endLine - 1;
+    }
+    return symbols;
+}
+
+interface Segment {
+    start: number;
+    end: number;
+    block?: { open: number; close: number }; // Braces of the first top-level block
+}
+
+/**
+ * Splits masked source into statements and declarations at one nesting
+ * level: each ends with a semicolon or with a block that is not followed
+ * by more of the same expression (`};`, `}.`, `},`, `})`).
+ */
+function segments(masked: string, from: number, to: number): Segment[] {
+    const result: Segment[] = [];
+    let i = from;
+    while (i < to) {
+        while (i < to && /\s/.test(masked[i])) i++;
+        if (i >= to) break;
+
+        const segment: Segment = { start: i, end: to };
+        let depth = 0;
+        let open: number | undefined;
+        for (; i < to; i++) {
+            const char = masked[i];
+            if ('([{'.includes(char)) {
+                if (char === '{' && depth === 0 && open === undefined && !segment.block) open = i;
+                depth++;
+            } else if (')]}'.includes(char)) {
+                depth--;
+                if (depth === 0 && char === '}' && open !== undefined) {
+                    segment.block = { open, close: i };
+                    open = undefined;
+                    const next = masked.slice(i + 1, to).match(/\S/)?.[0];
+                    if (!next || !';,).'.includes(next)) {
+                        i++;
+                        break;
+                    }
+                }
+            } else if (char === ';' && depth <= 0) {
+                i++;
+                break;
+            }
+        }
+        segment.end = i;
+        result.push(segment);
+    }
+    return result;
+}
+
+const JAVA_TYPE = /\b(class|interface|enum|record)\s+(\w+)/;
+const JAVA_ANNOTATION = /@\w+(?:\.\w+)*(?:\s*\([^)]*\))?\s*/g;
+const JAVA_TYPE_KINDS: Record<string, SymbolKind> = { class: 'class', interface: 'interface', enum: 'enum', record: 'class' };
+
+function withoutTypeArguments(text: string): string {
+    let result = text;
+    while (/<[^<>]*>/.test(result)) result = result.replace(/<[^<>]*>/g, '');
+    return result;
+}
+
+/**
+ * Java, from the declarations at the top level and in the bodies of
+ * top-level types. Fields and initializer blocks are not symbols.
+ */
+function javaSymbols(content: string): CodeSymbol[] {
+    const masked = maskCode(content);
+    const lines = content.split('\n');
+    const lineOf = lineIndex(content);
+    const symbols: CodeSymbol[] = [];
+
+    const scan = (from: number, to: number, container?: string) => {
+        for (const { start, end, block } of segments(masked, from, to)) {
+            if (!block) continue;
+            const header = masked.slice(start, block.open).replace(JAVA_ANNOTATION, ' ');
+            const type = header.match(JAVA_TYPE);
+            // Not a field initializer or a lambda
+            const plain = withoutTypeArguments(header);
+            const method = !type && !/[=>]/.test(plain) ? plain.match(/(\w+)\s*\([^]*\)[\w\s.,]*$/) : null;
+            if (!type && !method) continue;
+
+            const name = type ? type[2] : method![1];
+            const kind = type ? JAVA_TYPE_KINDS[type[1]] : name === container ? 'constructor' : 'method';
+            symbols.push({
+                name,
+                kind,
+                signature: signature(content.slice(start, block.open).replace(JAVA_ANNOTATION, ' ')),
+                container,
+                startLine: withLeadingComments(lines, lineOf(start)),
+                endLine: lineOf(end - 1),
+            });
+            if (type && !container) scan(block.open + 1, block.close, name);
+        }
+    };
+
+    scan(0, masked.length);
+    return symbols.sort(bySource);
+}
@@ -0,0 +1,121 @@
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { config, connections, DEFAULT_CONNECTION, getMissingCredentials, GitLabConnection, JiraConnection, settingName } from '../config.js';
+import { ConfigurationError, Provider } from '../utils/errors.js';
+import { credentialStore, userIdOf } from './credentials.js';
+
+function findConnection<T extends { name: string }>(label: string, list: T[], name?: string): T {
+    if (!name) return list[0];
+    const connection = list.find(c => c.name === name);
+    if (!connection) {
+        throw new ConfigurationError(`Unknown ${label} connection "${name}". Available connections: ${list.map(c => c.name).join(', ')}.`);
+    }
+    return connection;
+}
+
+// Authenticated callers only fall back to the server's own credentials when allowed
+const shared = <T>(value: T) => config.PM7_SHARED_CREDENTIALS_FALLBACK ? value : undefined;
+
+/**
+ * Resolves a GitLab connection by name, falling back to the default one.
+ * For authenticated requests the token is the caller's own.
+ */
+export function getGitLabConnection(name?: string, authInfo?: AuthInfo): GitLabConnection {
+    const connection = findConnection('GitLab', connections.gitlab, name);
+    if (!authInfo) return connection;
+
+    const user = credentialStore.get(userIdOf(authInfo));
+    return { ...connection, token: user?.gitlab[connection.name] ?? shared(connection.token) };
+}
+
+/**
+ * Resolves a Jira connection by name, falling back to the default one.
+ * For authenticated requests the email and token are the caller's own.
+ */
+export function getJiraConnection(name?: string, authInfo?: AuthInfo): JiraConnection {
+    const connection = findConnection('Jira', connections.jira, name);
+    if (!authInfo) return connection;
+
+    const own = credentialStore.get(userIdOf(authInfo))?.jira[connection.name];
+    return own
+        ? { ...connection, email: own.email, token: own.token }
+        : { ...connection, email: shared(connection.email), token: shared(connection.token) };
+}
+
+/**
+ * Site URL of a Jira connection. Cloud connections give a bare host, Server/Data
+ * Center ones may give a full URL with port and context path.
+ */
+export function jiraSiteUrl(connection: JiraConnection): string {
+    const domain = (connection.domain || 'jira.atlassian.net').replace(/\/+$/, '');
+    return /^https?:\/\//.test(domain) ? domain : `https://${domain}`;
+}
+
+export function jiraApiVersion(connection: JiraConnection): '2' | '3' {
+    return connection.apiVersion ?? (connection.flavor === 'server' ? '2' : '3');
+}
+
+export function jiraApiBaseUrl(connection: JiraConnection): string {
+    return `${jiraSiteUrl(connection)}/rest/api/${jiraApiVersion(connection)}`;
+}
+
+/**
+ * Authorization header: Cloud uses email + API token, Server/Data Center a Personal Access Token.
+ */
+export function jiraAuthorization(connection: JiraConnection): string {
+    return connection.flavor === 'server'
+        ? `Bearer ${connection.token || ''}`
+        : `Basic ${Buffer.from(`${connection.email || ''}:${connection.token || ''}`).toString('base64')}`;
+}
+
+/**
+ * Figma token to use for a request.
+ */
+export function getFigmaToken(authInfo?: AuthInfo): string | undefined {
+    if (!authInfo) return config.FIGMA_ACCESS_TOKEN;
+    return credentialStore.get(userIdOf(authInfo))?.figma ?? shared(config.FIGMA_ACCESS_TOKEN);
+}
+
+/**
+ * Lists the settings a provider (connection) still needs for this caller:
+ * server settings for unauthenticated requests, entries of the credentials
+ * file for authenticated users.
+ */
+export function getCallerMissingCredentials(provider: Provider, connection?: string, authInfo?: AuthInfo): string[] {
+    if (!authInfo || config.API_MODE === 'replay') return getMissingCredentials(provider, connection);
+
+    const userSetting = (path: string) => `users.${userIdOf(authInfo) ?? '<unknown user>'}.${path} in ${config.PM7_CREDENTIALS_FILE ?? 'PM7_CREDENTIALS_FILE'}`;
+    const missing: string[] = [];
+    if (provider === 'figma') {
+        if (!getFigmaToken(authInfo)) missing.push(userSetting('figma'));
+    } else if (provider === 'gitlab') {
+        const gitlab = getGitLabConnection(connection, authInfo);
+        if (!gitlab.token) missing.push(userSetting(`gitlab.${gitlab.name}`));
+    } else {
+        const jira = getJiraConnection(connection, authInfo);
+        if (!jira.domain) missing.push(settingName('jira', jira.name, 'JIRA_DOMAIN', 'domain'));
+        if (jira.flavor === 'cloud' && !jira.email) missing.push(userSetting(`jira.${jira.name}.email`));
+        if (!jira.token) missing.push(userSetting(`jira.${jira.name}.token`));
+    }
+    return missing;
+}
+
+/**
+ * Namespaces an index or resource key by connection so identical project
+ * paths on different instances don't collide. The default connection keeps
+ * bare keys, which keeps existing indexes and URIs valid.
+ */
+export function namespacedKey(connection: string, key: string): string {
+    return connection === DEFAULT_CONNECTION ? key : `${connection}:${key}`;
+}
+
+/**
+ * The GitLab connection and project path of a namespaced key.
+ */
+export function splitNamespacedKey(namespaced: string): { connection: string; key: string } {
+    const separator = namespaced.indexOf(':');
+    const prefix = namespaced.slice(0, separator);
+    if (separator > 0 && connections.gitlab.some(connection => connection.name === prefix)) {
+        return { connection: prefix, key: namespaced.slice(separator + 1) };
+    }
+    return { connection: DEFAULT_CONNECTION, key: namespaced };
+}
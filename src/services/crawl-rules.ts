@@ -0,0 +1,212 @@
+import { config, fileConfig } from '../config.js';
+import { globToRegExp } from '../utils/glob.js';
+
+export type CrawlPreset = 'docs' | 'code' | 'all';
+
+/**
+ * Include globs selected by a preset. Projects without an include list in
+ * the config file are crawled with `docs`.
+ */
+export const CRAWL_PRESETS: Record<CrawlPreset, string[]> = {
+    docs: ['*.md', '*.markdown', '*.txt', '*.rst', '*.adoc'],
+    code: [
+        '*.ts', '*.tsx', '*.mts', '*.cts', '*.js', '*.jsx', '*.mjs', '*.cjs',
+        '*.py', '*.java', '*.go', '*.rs', '*.c', '*.cpp', '*.h',
+        '*.yaml', '*.yml', '*.json', '*.ipynb',
+    ],
+    all: ['**'],
+};
+
+// Used unless the config file has a global exclude list. Build output is
+// excluded in every directory, except docs/build, which holds documentation.
+export const DEFAULT_CRAWL_EXCLUDE = [
+    '**/node_modules/**', '**/.git/**', '**/dist/**', '**/build/**', '**/coverage/**', '**/vendor/**',
+    '*.min.js', '*.min.css', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml',
+    '!**/docs/build/**',
+];
+
+// Skipped without fetching them
+const BINARY_EXTENSIONS = new Set([
+    'png', 'jpg', 'jpeg', 'gif', 'bmp', 'ico', 'webp', 'tif', 'tiff', 'psd', 'sketch', 'fig',
+    'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx',
+    'zip', 'gz', 'tgz', 'bz2', 'xz', '7z', 'rar', 'jar', 'war',
+    'exe', 'dll', 'so', 'dylib', 'class', 'o', 'a', 'wasm', 'bin', 'pyc',
+    'woff', 'woff2', 'ttf', 'otf', 'eot', 'mp3', 'mp4', 'mov', 'avi', 'wav', 'webm',
+]);
+
+// Text with a NUL byte among its first characters is treated as binary
+const BINARY_SNIFF_CHARS = 8000;
+
+export const IGNORE_FILE = '.pm7ignore';
+
+export type SkipReason = 'not included' | 'excluded' | 'ignored' | 'binary' | 'too large' | 'failed';
+
+export interface CrawlOverrides {
+    preset?: CrawlPreset; // Replaces the include list, together with `include`
+    include?: string[];
+    exclude?: string[]; // Added to the exclude list
+}
+
+export interface ResolvedCrawlRules {
+    include: string[];
+    exclude: string[];
+    maxFileBytes: number;
+}
+
+/**
+ * Crawl rules of a project: the global rules from the config file, then
+ * the rules of every project glob that matches it (in order), then the
+ * overrides of the crawl request.
+ */
+export function crawlRulesFor(projectKey: string, overrides: CrawlOverrides = {}): ResolvedCrawlRules {
+    const settings = fileConfig.crawl;
+    const rules: ResolvedCrawlRules = {
+        include: settings.include ?? CRAWL_PRESETS.docs,
+        exclude: settings.exclude ?? DEFAULT_CRAWL_EXCLUDE,
+        maxFileBytes: settings.maxFileBytes ?? config.CRAWL_MAX_FILE_BYTES,
+    };
+
+    // Keys are project path globs; named connections prefix the path with "<connection>:"
+    const projectPath = projectKey.replace(/^[^:/]+:/, '');
+    for (const [pattern, projectRules] of Object.entries(settings.projects)) {
+        if (![projectKey, projectPath].some(id => globToRegExp(pattern).test(id))) continue;
+        if (projectRules.include) rules.include = projectRules.include;
+        rules.exclude = [...rules.exclude, ...projectRules.exclude];
+        rules.maxFileBytes = projectRules.maxFileBytes ?? rules.maxFileBytes;
+    }
+
+    if (overrides.preset || overrides.include) {
+        rules.include = [...(overrides.preset ? CRAWL_PRESETS[overrides.preset] : []), ...(overrides.include ?? [])];
+    }
+    if (overrides.exclude) rules.exclude = [...rules.exclude, ...overrides.exclude];
+    return rules;
+}
+
+/**
+ * True when the path matches any of the globs. Globs without "/" match the
+ * file name, so `*.md` covers every directory.
+ */
+function matchesPath(filePath: string, globs: string[]): boolean {
+    const name = filePath.slice(filePath.lastIndexOf('/') + 1);
+    return globs.some(glob => globToRegExp(glob).test(glob.includes('/') ? filePath : name));
+}
+
+/**
+ * True when the path is excluded. A glob starting with "!" re-includes what
+ * the globs before it excluded; the last matching glob wins.
+ */
+function isExcluded(filePath: string, globs: string[]): boolean {
+    let excluded = false;
+    for (const glob of globs) {
+        const negate = glob.startsWith('!');
+        if (matchesPath(filePath, [negate ? glob.slice(1) : glob])) excluded = !negate;
+    }
+    return excluded;
+}
+
+interface IgnoreRule {
+    pattern: RegExp;
+    negate: boolean;
+    directoryOnly: boolean;
+}
+
+/**
+ * Parses a .pm7ignore file, which uses the .gitignore syntax: `#` comments,
+ * `!` re-includes, a trailing `/` matches directories only, and patterns
+ * without a "/" (other than a trailing one) match at any depth.
+ */
+function parseIgnoreFile(text: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const raw of text.split(/\r?\n/)) {
+        let line = raw.trimEnd();
+        if (!line || line.startsWith('#')) continue;
+
+        const negate = line.startsWith('!');
+        if (negate) line = line.slice(1);
+        else if (line.startsWith('\\')) line = line.slice(1); // "\#file", "\!file"
+        const directoryOnly = line.endsWith('/');
+        if (directoryOnly) line = line.slice(0, -1);
+        if (!line) continue;
+
+        const glob = line.includes('/') ? line.replace(/^\//, '') : `**/${line}`;
+        rules.push({ pattern: globToRegExp(glob), negate, directoryOnly });
+    }
+    return rules;
+}
+
+/**
+ * Decides which files of a project are indexed.
+ */
+export class CrawlFilter {
+    private ignoreRules: IgnoreRule[];
+
+    constructor(private rules: ResolvedCrawlRules, ignoreFile: string = '') {
+        this.ignoreRules = parseIgnoreFile(ignoreFile);
+    }
+
+    /**
+     * Why a file is skipped, judged by its path; undefined when it is fetched.
+     */
+    checkPath(filePath: string): SkipReason | undefined {
+        if (this.isIgnored(filePath)) return 'ignored';
+        if (isExcluded(filePath, this.rules.exclude)) return 'excluded';
+        if (!matchesPath(filePath, this.rules.include)) return 'not included';
+        const extension = filePath.includes('.') ? filePath.split('.').pop()!.toLowerCase() : '';
+        if (BINARY_EXTENSIONS.has(extension)) return 'binary';
+        return undefined;
+    }
+
+    /**
+     * Why a fetched file is skipped; undefined when it is indexed.
+     */
+    checkContent(content: string): SkipReason | undefined {
+        return this.checkSize(Buffer.byteLength(content))
+            ?? (content.slice(0, BINARY_SNIFF_CHARS).includes('\0') ? 'binary' : undefined);
+    }
+
+    /**
+     * Why a file of this many bytes is skipped; undefined when it is indexed.
+     */
+    checkSize(bytes: number): SkipReason | undefined {
+        return bytes > this.rules.maxFileBytes ? 'too large' : undefined;
+    }
+
+    // The last matching rule wins; a rule for a directory covers everything in it
+    private isIgnored(filePath: string): boolean {
+        const segments = filePath.split('/');
+        const directories = segments.slice(0, -1).map((_, i) => segments.slice(0, i + 1).join('/'));
+        let ignored = false;
+        for (const rule of this.ignoreRules) {
+            const candidates = rule.directoryOnly ? directories : [...directories, filePath];
+            if (candidates.some(candidate => rule.pattern.test(candidate))) ignored = !rule.negate;
+        }
+        return ignored;
+    }
+}
+
+// Paths listed per skip reason in crawl summaries
+const SKIPPED_EXAMPLES = 5;
+
+/**
+ * Skipped files per reason, with a few of their paths.
+ */
+export type SkippedFiles = Partial<Record<SkipReason, { files: number; examples: string[] }>>;
+
+export function recordSkipped(skipped: SkippedFiles, reason: SkipReason, filePath: string): void {
+    const entry = skipped[reason] ??= { files: 0, examples: [] };
+    entry.files++;
+    if (entry.examples.length < SKIPPED_EXAMPLES) entry.examples.push(filePath);
+}
+
+/**
+ * Adds the skipped files of a project to a total over several projects,
+ * whose examples are prefixed with the project key.
+ */
+export function mergeSkipped(total: SkippedFiles, skipped: SkippedFiles, projectKey: string): void {
+    for (const [reason, entry] of Object.entries(skipped) as [SkipReason, { files: number; examples: string[] }][]) {
+        const merged = total[reason] ??= { files: 0, examples: [] };
+        merged.files += entry.files;
+        const room = Math.max(0, SKIPPED_EXAMPLES - merged.examples.length);
+        merged.examples.push(...entry.examples.slice(0, room).map(filePath => `${projectKey}/${filePath}`));
+    }
+}
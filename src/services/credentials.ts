@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { config, userCredentials, UserCredentials } from '../config.js';
+import { AccessDeniedError } from '../utils/errors.js';
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+/**
+ * User ID the token verifier attached to a request, if the request was authenticated.
+ */
+export function userIdOf(authInfo?: AuthInfo): string | undefined {
+    const userId = authInfo?.extra?.userId;
+    return typeof userId === 'string' ? userId : undefined;
+}
+
+/**
+ * Whether the caller may change state shared by all users, such as removing
+ * projects from the search index. Unauthenticated requests (stdio, or HTTP
+ * without MCP_AUTH) come from the server's operator.
+ */
+export function isAdmin(authInfo?: AuthInfo): boolean {
+    return !authInfo || credentialStore.get(userIdOf(authInfo))?.admin === true;
+}
+
+/**
+ * Throws an AccessDeniedError unless the caller is an administrator.
+ *
+ * @param action What only administrators may do, e.g. 'flush the API cache'
+ * @param shared The state shared by all users that the action changes
+ */
+export function assertAdmin(authInfo: AuthInfo | undefined, action: string, shared: string) {
+    if (!isAdmin(authInfo)) {
+        throw new AccessDeniedError(`Only administrators may ${action}, since ${shared} is shared by all users (set admin: true in ${config.PM7_CREDENTIALS_FILE ?? 'PM7_CREDENTIALS_FILE'}).`);
+    }
+}
+
+/**
+ * Looks up users by ID or by one of their /mcp bearer tokens.
+ */
+export class CredentialStore {
+    private users: Map<string, UserCredentials> = new Map();
+    private tokenDigests: Map<string, UserCredentials> = new Map();
+
+    constructor(users: UserCredentials[]) {
+        for (const user of users) {
+            if (this.users.has(user.id)) throw new Error(`Duplicate user "${user.id}" in the credentials file`);
+            this.users.set(user.id, user);
+            for (const token of user.tokens) {
+                // Tokens may be stored pre-hashed so the file holds no usable secret
+                const digest = token.startsWith('sha256:') ? token.slice('sha256:'.length).toLowerCase() : sha256(token);
+                this.tokenDigests.set(digest, user);
+            }
+        }
+    }
+
+    get(userId: string | undefined): UserCredentials | undefined {
+        return userId === undefined ? undefined : this.users.get(userId);
+    }
+
+    /**
+     * Finds the user a bearer token belongs to. Comparing digests keeps the
+     * lookup time independent of how much of the token matches.
+     */
+    authenticate(token: string): UserCredentials | undefined {
+        return this.tokenDigests.get(sha256(token));
+    }
+}
+
+export const credentialStore = new CredentialStore(userCredentials);
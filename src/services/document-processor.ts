@@ -1,4 +1,13 @@
 
+import * as jsYaml from 'js-yaml';
+import { CodeSymbol, extractSymbols, SymbolKind } from './code-symbols.js';
+import { csvRecords, jsonStructure, StructureNode, yamlDocuments, yamlStructure } from './structured-formats.js';
+
+export interface ChunkEmbedding {
+    model: string; // Vectors of different models are not comparable
+    vector: number[]; // Unit length
+}
+
 export interface DocumentChunk {
     id: string;
     projectId: string;
@@ -6,10 +15,57 @@ export interface DocumentChunk {
     content: string;
     metadata: {
         title?: string;
-        type: 'markdown' | 'code' | 'text';
+        // openapi: one API operation (or another part of the spec); config: a
+        // member of a YAML or JSON file; csv: rows under their header line;
+        // notebook: one Jupyter cell
+        type: 'markdown' | 'code' | 'text' | 'openapi' | 'config' | 'csv' | 'notebook';
         startLine?: number;
         endLine?: number;
+        // Code chunks covering one symbol (title: "Container.symbol")
+        symbol?: string;
+        symbolKind?: SymbolKind;
+        signature?: string;
+        container?: string; // Enclosing class of a member
+        // Markdown: headings of the sections enclosing the chunk's, outermost first
+        breadcrumb?: string[];
+        // Markdown front matter, shared by every chunk of the document
+        tags?: string[];
+        owner?: string;
+        status?: string;
+        // YAML, JSON and OpenAPI: path of the member, e.g. "flags.checkout" or "servers[0]"
+        keyPath?: string;
+        operation?: { method: string; path: string; summary?: string; operationId?: string };
+        cell?: number; // Notebook cell, 1-based
+        cellType?: 'code' | 'markdown' | 'raw';
     };
+    embedding?: ChunkEmbedding; // Set when indexed with an embedding provider
+}
+
+// Windows for code that is not split by symbol, and for oversized symbols
+const CODE_WINDOW_LINES = 50;
+const CODE_WINDOW_OVERLAP = 10;
+const MAX_SYMBOL_LINES = 100;
+
+// Markdown sections longer than this are split between paragraphs, and
+// YAML or JSON members into their own members; CSV rows are grouped up to it
+const CHUNK_TOKEN_BUDGET = 500;
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Cell contents are cut beyond this, like plain text files
+const MAX_TEXT_CHARS = 10000;
+
+// Rough token count for budgeting; about four characters per token in English
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Opening line of a fenced code block: the fence, then an optional info string
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+interface MarkdownSection {
+    title: string;
+    breadcrumb: string[];
+    start: number; // 0-based line indexes, inclusive
+    end: number;
 }
 
 export class DocumentProcessor {
@@ -21,93 +77,434 @@ export class DocumentProcessor {
 
         if (extension === 'md' || extension === 'markdown') {
             return this.chunkMarkdown(projectId, filePath, content);
-        } else if (['ts', 'js', 'py', 'java', 'go', 'rs', 'c', 'cpp', 'h'].includes(extension || '')) {
+        } else if (['ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs', 'py', 'java', 'go', 'rs', 'c', 'cpp', 'h'].includes(extension || '')) {
             return this.chunkCode(projectId, filePath, content);
+        } else if (['yaml', 'yml', 'json'].includes(extension || '')) {
+            return this.chunkStructured(projectId, filePath, content, extension === 'json');
+        } else if (extension === 'csv' || extension === 'tsv') {
+            return this.chunkCsv(projectId, filePath, content);
+        } else if (extension === 'ipynb') {
+            return this.chunkNotebook(projectId, filePath, content);
         } else {
             return this.chunkText(projectId, filePath, content);
         }
     }
 
+    /**
+     * One chunk per H1-H3 section, with the headings above it as breadcrumb.
+     * Headings inside fenced code blocks (e.g. `# comments` in shell
+     * snippets) do not start sections. Sections over CHUNK_TOKEN_BUDGET
+     * are split between paragraphs; code blocks and tables are never split.
+     */
     private static chunkMarkdown(projectId: string, filePath: string, content: string): DocumentChunk[] {
+        // CRLF files too: a trailing "\r" would keep headings from matching
+        const lines = content.split(/\r?\n/);
+        const { frontMatter, bodyStart } = this.parseFrontMatter(lines);
+        const documentMetadata = this.frontMatterMetadata(frontMatter);
+
+        const sections: MarkdownSection[] = [];
+        const headings: string[] = []; // Current heading at each level
+        let section: MarkdownSection = {
+            title: typeof frontMatter.title === 'string' ? frontMatter.title : 'Introduction',
+            breadcrumb: [],
+            start: bodyStart,
+            end: lines.length - 1,
+        };
+        let fence: string | undefined;
+
+        for (let i = bodyStart; i < lines.length; i++) {
+            const line = lines[i];
+            if (fence) {
+                if (this.closesFence(line, fence)) fence = undefined;
+                continue;
+            }
+            const opening = line.match(FENCE);
+            if (opening) {
+                fence = opening[1];
+                continue;
+            }
+
+            const heading = line.match(/^(#{1,3})\s+(.*)$/);
+            if (!heading) continue;
+            sections.push({ ...section, end: i - 1 });
+
+            const level = heading[1].length;
+            const title = heading[2].replace(/\s+#+\s*$/, '').trim();
+            headings.length = level - 1;
+            section = { title, breadcrumb: headings.filter(Boolean), start: i, end: lines.length - 1 };
+            headings[level - 1] = title;
+        }
+        sections.push(section);
+
         const chunks: DocumentChunk[] = [];
+        for (const { title, breadcrumb, start, end } of sections) {
+            for (const [partStart, partEnd] of this.splitSection(lines, start, end)) {
+                chunks.push({
+                    id: `${projectId}:${filePath}:${partStart + 1}`,
+                    projectId,
+                    filePath,
+                    content: lines.slice(partStart, partEnd + 1).join('\n'),
+                    metadata: {
+                        title,
+                        type: 'markdown',
+                        startLine: partStart + 1,
+                        endLine: partEnd + 1,
+                        breadcrumb: breadcrumb.length > 0 ? breadcrumb : undefined,
+                        ...documentMetadata,
+                    }
+                });
+            }
+        }
+
+        return chunks;
+    }
+
+    private static closesFence(line: string, fence: string): boolean {
+        const closing = line.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+        return !!closing && closing[1][0] === fence[0] && closing[1].length >= fence.length;
+    }
+
+    /**
+     * Line ranges of the parts of a section: its blocks (paragraphs, lists,
+     * tables, fenced code), packed in order up to the token budget. A block
+     * over the budget is a part of its own. Sections of blank lines only
+     * have no parts.
+     */
+    private static splitSection(lines: string[], start: number, end: number): [number, number][] {
+        const blocks: [number, number][] = [];
+        let fence: string | undefined;
+        for (let i = start; i <= end; i++) {
+            const blank = lines[i].trim() === '';
+            const current = blocks[blocks.length - 1];
+            if (!fence && blank) continue;
+            if (current && (fence || current[1] === i - 1)) current[1] = i;
+            else blocks.push([i, i]);
+
+            if (fence) {
+                if (this.closesFence(lines[i], fence)) fence = undefined;
+            } else {
+                fence = lines[i].match(FENCE)?.[1];
+            }
+        }
+
+        const parts: [number, number][] = [];
+        for (const block of blocks) {
+            const part = parts[parts.length - 1];
+            if (part && estimateTokens(lines.slice(part[0], block[1] + 1).join('\n')) <= CHUNK_TOKEN_BUDGET) part[1] = block[1];
+            else parts.push([...block]);
+        }
+        return parts;
+    }
+
+    /**
+     * YAML front matter between `---` lines at the top of the document, and
+     * the index of the first line after it. Invalid front matter is left in
+     * the text.
+     */
+    private static parseFrontMatter(lines: string[]): { frontMatter: Record<string, unknown>; bodyStart: number } {
+        if (lines[0]?.trim() !== '---') return { frontMatter: {}, bodyStart: 0 };
+        const end = lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+        if (end === -1) return { frontMatter: {}, bodyStart: 0 };
+
+        try {
+            const data = jsYaml.load(lines.slice(1, end).join('\n'));
+            if (data && typeof data === 'object' && !Array.isArray(data)) {
+                return { frontMatter: data as Record<string, unknown>, bodyStart: end + 1 };
+            }
+        } catch (error) {
+            // Not YAML after all, e.g. a document starting with a horizontal rule
+        }
+        return { frontMatter: {}, bodyStart: 0 };
+    }
+
+    private static frontMatterMetadata(frontMatter: Record<string, unknown>): Pick<DocumentChunk['metadata'], 'tags' | 'owner' | 'status'> {
+        const text = (value: unknown) => Array.isArray(value) ? value.map(String).join(', ') : value != null ? String(value) : undefined;
+        const tags = frontMatter.tags;
+        return {
+            // A list, or a comma-separated string
+            tags: Array.isArray(tags) ? tags.map(String) : typeof tags === 'string' ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
+            owner: text(frontMatter.owner),
+            status: text(frontMatter.status),
+        };
+    }
+
+    /**
+     * One chunk per top-level symbol or class member where the language is
+     * parsed (see code-symbols.ts), with the code between symbols (imports,
+     * fields, statements) in chunks of its own. Symbols longer than
+     * MAX_SYMBOL_LINES, and files in other languages, are cut into windows.
+     */
+    private static chunkCode(projectId: string, filePath: string, content: string): DocumentChunk[] {
         const lines = content.split('\n');
-        let currentChunkLines: string[] = [];
-        let currentTitle = 'Introduction';
-        let startLine = 1;
+        let symbols: CodeSymbol[] | undefined;
+        try {
+            symbols = extractSymbols(filePath, content);
+        } catch (error) {
+            console.error(`Failed to parse ${filePath}, chunking it by lines:`, error);
+        }
+        if (!symbols?.length) return this.chunkLines(projectId, filePath, lines, 1, lines.length);
 
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
+        const chunks: DocumentChunk[] = [];
+        let next = 1; // First line not in a chunk yet
 
-            // Split on headers (H1-H3)
-            if (line.match(/^#{1,3}\s/)) {
-                if (currentChunkLines.length > 0) {
-                    chunks.push({
-                        id: `${projectId}:${filePath}:${startLine}`,
-                        projectId,
-                        filePath,
-                        content: currentChunkLines.join('\n'),
-                        metadata: {
-                            title: currentTitle,
-                            type: 'markdown',
-                            startLine,
-                            endLine: i
-                        }
-                    });
+        // Code outside symbols, split where an enclosing class ends; blank
+        // lines and lone brackets are left out
+        const addGap = (end: number) => {
+            while (next <= end) {
+                const boundary = Math.min(end, ...symbols!.filter(s => s.endLine >= next && s.endLine < end).map(s => s.endLine));
+                const container = symbols!.filter(s => s.startLine < next && s.endLine >= boundary).pop();
+                if (/[\p{L}\p{N}]/u.test(lines.slice(next - 1, boundary).join('\n'))) {
+                    chunks.push(...this.chunkLines(projectId, filePath, lines, next, boundary, container && { title: DocumentProcessor.symbolTitle(container) }));
                 }
-                currentTitle = line.replace(/^#+\s/, '').trim();
-                currentChunkLines = [line];
-                startLine = i + 1;
-            } else {
-                currentChunkLines.push(line);
+                next = boundary + 1;
             }
+        };
+
+        symbols.forEach((symbol, i) => {
+            const start = Math.max(symbol.startLine, next);
+            addGap(start - 1);
+            // A class chunk ends where its first member starts
+            const following = symbols![i + 1];
+            const end = following && following.startLine <= symbol.endLine ? following.startLine - 1 : symbol.endLine;
+            if (end < start) return;
+
+            const metadata = {
+                title: DocumentProcessor.symbolTitle(symbol),
+                symbol: symbol.name,
+                symbolKind: symbol.kind,
+                signature: symbol.signature,
+                container: symbol.container,
+            };
+            chunks.push(...(end - start < MAX_SYMBOL_LINES
+                ? [this.lineChunk(projectId, filePath, lines, start, end, metadata)]
+                : this.chunkLines(projectId, filePath, lines, start, end, metadata)));
+            next = end + 1;
+        });
+        addGap(lines.length);
+
+        return chunks;
+    }
+
+    private static symbolTitle(symbol: CodeSymbol): string {
+        return symbol.container ? `${symbol.container}.${symbol.name}` : symbol.name;
+    }
+
+    /**
+     * Fixed-size windows with overlap over lines `start` to `end` (1-based).
+     */
+    private static chunkLines(projectId: string, filePath: string, lines: string[], start: number, end: number, metadata: Partial<DocumentChunk['metadata']> = {}): DocumentChunk[] {
+        const chunks: DocumentChunk[] = [];
+
+        for (let i = start; i <= end; i += (CODE_WINDOW_LINES - CODE_WINDOW_OVERLAP)) {
+            const windowEnd = Math.min(i + CODE_WINDOW_LINES - 1, end);
+            chunks.push(this.lineChunk(projectId, filePath, lines, i, windowEnd, metadata));
+            if (windowEnd === end) break;
         }
 
-        // Add last chunk
-        if (currentChunkLines.length > 0) {
-            chunks.push({
-                id: `${projectId}:${filePath}:${startLine}`,
-                projectId,
-                filePath,
-                content: currentChunkLines.join('\n'),
-                metadata: {
-                    title: currentTitle,
-                    type: 'markdown',
-                    startLine,
-                    endLine: lines.length
+        return chunks;
+    }
+
+    /**
+     * A chunk of lines `start` to `end` (1-based), of type code unless the
+     * metadata says otherwise. `prefix` lines (a CSV header, an operation
+     * summary) are prepended as context; they are outside the line range.
+     */
+    private static lineChunk(projectId: string, filePath: string, lines: string[], start: number, end: number, metadata: Partial<DocumentChunk['metadata']>, prefix?: string): DocumentChunk {
+        const text = lines.slice(start - 1, end).join('\n');
+        return {
+            id: `${projectId}:${filePath}:${start}`,
+            projectId,
+            filePath,
+            content: prefix !== undefined ? `${prefix}\n${text}` : text,
+            metadata: {
+                type: 'code',
+                ...metadata,
+                startLine: start,
+                endLine: end
+            }
+        };
+    }
+
+    /**
+     * YAML and JSON files, one chunk per top-level member (object key or
+     * array item); members over the token budget are split into theirs.
+     * Each document of a multi-document YAML file is chunked on its own.
+     * OpenAPI specs get one chunk per operation instead of one per path.
+     * Files that do not parse are text, and so are files whose members
+     * share lines (minified JSON such as `[1,2,3]`, flow collections), as
+     * they cannot be chunked by line.
+     */
+    private static chunkStructured(projectId: string, filePath: string, content: string, isJson: boolean): DocumentChunk[] {
+        const lines = content.split('\n');
+        const documents: { data: unknown; nodes: StructureNode[] }[] = [];
+        try {
+            if (isJson) {
+                documents.push({ data: JSON.parse(content), nodes: jsonStructure(content) });
+            } else {
+                jsYaml.loadAll(content); // Validates the whole stream
+                for (const [start, end] of yamlDocuments(lines)) {
+                    const nodes = yamlStructure(lines, start, end);
+                    if (nodes.length > 0) documents.push({ data: jsYaml.load(lines.slice(start, end + 1).join('\n')), nodes });
                 }
-            });
+            }
+        } catch (error) {
+            return this.chunkText(projectId, filePath, content);
+        }
+        if (documents.length === 0 || documents.some(({ nodes }) => !DocumentProcessor.onSeparateLines(nodes))) {
+            return this.chunkText(projectId, filePath, content);
         }
 
+        return documents.flatMap(({ data, nodes }) => this.chunkStructuredDocument(projectId, filePath, lines, data, nodes));
+    }
+
+    private static chunkStructuredDocument(projectId: string, filePath: string, lines: string[], data: unknown, nodes: StructureNode[]): DocumentChunk[] {
+        const spec = data as { openapi?: unknown; swagger?: unknown; paths?: Record<string, Record<string, { summary?: string; operationId?: string }>> };
+        const isOpenApi = !!spec && typeof spec === 'object' && (!!spec.openapi || !!spec.swagger) && typeof spec.paths === 'object' && !!spec.paths;
+        const type = isOpenApi ? 'openapi' : 'config';
+        const chunks: DocumentChunk[] = [];
+
+        const addMembers = (members: StructureNode[], parentPath: string | undefined) => {
+            // Runs of one-line members (scalars) share a chunk
+            let run: StructureNode[] = [];
+            const flushRun = () => {
+                if (run.length === 0) return;
+                chunks.push(this.lineChunk(projectId, filePath, lines, run[0].start + 1, run[run.length - 1].end + 1, {
+                    type,
+                    title: run.map(member => member.key).join(', '),
+                    keyPath: parentPath,
+                }));
+                run = [];
+            };
+
+            for (const member of members) {
+                if (member.start === member.end) {
+                    if (run.length > 0 && estimateTokens(lines.slice(run[0].start, member.end + 1).join('\n')) > CHUNK_TOKEN_BUDGET) flushRun();
+                    run.push(member);
+                    continue;
+                }
+                flushRun();
+                const path = DocumentProcessor.keyPath(parentPath, member.key);
+                if (isOpenApi && path === 'paths') {
+                    addOperations(member);
+                    continue;
+                }
+                const text = lines.slice(member.start, member.end + 1).join('\n');
+                const children = member.children();
+                if (estimateTokens(text) <= CHUNK_TOKEN_BUDGET) {
+                    chunks.push(this.lineChunk(projectId, filePath, lines, member.start + 1, member.end + 1, { type, title: path, keyPath: path }));
+                } else if (children.length > 0 && DocumentProcessor.onSeparateLines(children)) {
+                    addMembers(children, path);
+                } else {
+                    chunks.push(...this.chunkLines(projectId, filePath, lines, member.start + 1, member.end + 1, { type, title: path, keyPath: path }));
+                }
+            }
+            flushRun();
+        };
+
+        const addOperations = (paths: StructureNode) => {
+            for (const pathNode of paths.children()) {
+                for (const node of pathNode.children()) {
+                    const method = node.key.toLowerCase();
+                    if (!HTTP_METHODS.includes(method)) continue; // Shared parameters, servers, $ref
+                    const details = spec.paths?.[pathNode.key]?.[node.key];
+                    const operation = {
+                        method: method.toUpperCase(),
+                        path: pathNode.key,
+                        summary: typeof details?.summary === 'string' ? details.summary : undefined,
+                        operationId: typeof details?.operationId === 'string' ? details.operationId : undefined,
+                    };
+                    const title = `${operation.method} ${operation.path}`;
+                    const metadata = { type, title, keyPath: `paths.${pathNode.key}.${node.key}`, operation } as const;
+                    if (estimateTokens(lines.slice(node.start, node.end + 1).join('\n')) <= CHUNK_TOKEN_BUDGET) {
+                        const prefix = [title, operation.summary, operation.operationId && `operationId: ${operation.operationId}`].filter(Boolean).join(' - ');
+                        chunks.push(this.lineChunk(projectId, filePath, lines, node.start + 1, node.end + 1, metadata, prefix));
+                    } else {
+                        chunks.push(...this.chunkLines(projectId, filePath, lines, node.start + 1, node.end + 1, metadata));
+                    }
+                }
+            }
+        };
+
+        addMembers(nodes, undefined);
         return chunks;
     }
 
-    private static chunkCode(projectId: string, filePath: string, content: string): DocumentChunk[] {
-        // Simple fixed-size chunking for code with overlap
-        // Ideally this would use an AST parser, but for now we'll use a sliding window
-        const CHUNK_SIZE = 50; // lines
-        const OVERLAP = 10; // lines
+    private static onSeparateLines(nodes: StructureNode[]): boolean {
+        return nodes.every((node, i) => i === 0 || node.start > nodes[i - 1].end);
+    }
+
+    private static keyPath(parent: string | undefined, key: string): string {
+        if (key.startsWith('[')) return `${parent ?? ''}${key}`;
+        return parent ? `${parent}.${key}` : key;
+    }
 
+    /**
+     * CSV and TSV files: groups of rows up to the token budget, each with
+     * the header line first so that the columns are known.
+     */
+    private static chunkCsv(projectId: string, filePath: string, content: string): DocumentChunk[] {
         const lines = content.split('\n');
+        const records = csvRecords(content).filter(([start, end]) => lines.slice(start, end + 1).join('').trim() !== '');
+        if (records.length < 2) return this.chunkText(projectId, filePath, content);
+
+        const [header, ...rows] = records;
+        const headerText = lines.slice(header[0], header[1] + 1).join('\n');
         const chunks: DocumentChunk[] = [];
+        let group: [number, number] | undefined;
+        const flush = () => {
+            if (group) chunks.push(this.lineChunk(projectId, filePath, lines, group[0] + 1, group[1] + 1, { type: 'csv' }, headerText));
+        };
 
-        for (let i = 0; i < lines.length; i += (CHUNK_SIZE - OVERLAP)) {
-            const end = Math.min(i + CHUNK_SIZE, lines.length);
-            const chunkLines = lines.slice(i, end);
+        for (const [start, end] of rows) {
+            if (group && estimateTokens(`${headerText}\n${lines.slice(group[0], end + 1).join('\n')}`) <= CHUNK_TOKEN_BUDGET) {
+                group[1] = end;
+            } else {
+                flush();
+                group = [start, end];
+            }
+        }
+        flush();
+
+        return chunks;
+    }
+
+    /**
+     * Jupyter notebooks, one chunk per non-empty cell. Cells are titled
+     * with the last markdown heading before them. Outputs are not indexed.
+     */
+    private static chunkNotebook(projectId: string, filePath: string, content: string): DocumentChunk[] {
+        let notebook: { cells?: { cell_type?: string; source?: string | string[] }[] };
+        try {
+            notebook = JSON.parse(content);
+        } catch (error) {
+            return this.chunkText(projectId, filePath, content);
+        }
+        if (!Array.isArray(notebook?.cells)) return this.chunkText(projectId, filePath, content);
+
+        const chunks: DocumentChunk[] = [];
+        let title: string | undefined;
+        notebook.cells.forEach((cell, index) => {
+            const source = (Array.isArray(cell.source) ? cell.source.join('') : cell.source ?? '').trim();
+            const cellType = cell.cell_type === 'markdown' || cell.cell_type === 'raw' ? cell.cell_type : 'code';
+            if (cellType === 'markdown') {
+                const heading = source.match(/^#{1,6}\s+(.+)$/m);
+                if (heading) title = heading[1].trim();
+            }
+            if (!source) return;
 
             chunks.push({
-                id: `${projectId}:${filePath}:${i + 1}`,
+                id: `${projectId}:${filePath}:cell-${index + 1}`,
                 projectId,
                 filePath,
-                content: chunkLines.join('\n'),
+                content: source.slice(0, MAX_TEXT_CHARS),
                 metadata: {
-                    type: 'code',
-                    startLine: i + 1,
-                    endLine: end
+                    title,
+                    type: 'notebook',
+                    cell: index + 1,
+                    cellType,
                 }
             });
-
-            if (end === lines.length) break;
-        }
+        });
 
         return chunks;
     }
@@ -119,7 +516,7 @@ export class DocumentProcessor {
             id: `${projectId}:${filePath}:1`,
             projectId,
             filePath,
-            content: content.slice(0, 10000), // Hard limit to avoid massive tokens
+            content: content.slice(0, MAX_TEXT_CHARS), // Hard limit to avoid massive tokens
             metadata: {
                 type: 'text',
                 startLine: 1,
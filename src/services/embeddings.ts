@@ -0,0 +1,150 @@
+import { createHash } from 'crypto';
+import { config, fileConfig } from '../config.js';
+import { ApiClient } from '../utils/api-client.js';
+
+/**
+ * Turns text into vectors for semantic search. Vectors from different models
+ * are not comparable, so each provider reports a `model` that is stored with
+ * every embedding.
+ */
+export interface EmbeddingProvider {
+    readonly model: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+// Words with the same meaning in project docs share a concept dimension, so
+// the local provider can match "onboarding a laptop" to "device enrollment".
+// Entries are stems as produced by `stem` below.
+const CONCEPTS: Record<string, string[]> = {
+    onboarding: ['onboard', 'enrol', 'enroll', 'provision', 'setup', 'register', 'activat', 'join', 'bootstrap'],
+    offboarding: ['offboard', 'retir', 'decommission', 'wipe', 'unenrol', 'unenroll', 'deprovision'],
+    device: ['device', 'laptop', 'computer', 'machine', 'desktop', 'endpoint', 'phone', 'mobile', 'tablet', 'notebook', 'workstation'],
+    authentication: ['login', 'logon', 'signin', 'auth', 'authent', 'sso', 'password', 'credential', 'mfa', '2fa', 'token'],
+    defect: ['bug', 'error', 'failur', 'fail', 'crash', 'exception', 'defect', 'broken', 'fault', 'regress'],
+    release: ['deploy', 'releas', 'ship', 'rollout', 'publish', 'launch', 'deliver'],
+    configuration: ['config', 'configur', 'setting', 'option', 'preferenc', 'polic', 'policy', 'profil', 'profile'],
+    permission: ['permission', 'role', 'access', 'privileg', 'grant', 'acl', 'rbac', 'admin'],
+    user: ['user', 'employe', 'employee', 'staff', 'member', 'account', 'person', 'people'],
+    update: ['updat', 'upgrad', 'patch', 'migrat', 'version'],
+    monitoring: ['monitor', 'alert', 'metric', 'log', 'observ', 'dashboard', 'report'],
+    removal: ['delet', 'remov', 'eras', 'purg', 'drop', 'clean'],
+};
+
+const CONCEPT_OF = new Map(Object.entries(CONCEPTS).flatMap(([concept, stems]) => stems.map(stem => [stem, concept] as const)));
+const CONCEPT_WEIGHT = 2;
+
+const SUFFIXES = ['ments', 'ment', 'ings', 'ing', 'ations', 'ation', 'ers', 'er', 'ies', 'es', 'ed', 's'];
+
+const stem = (word: string) => {
+    for (const suffix of SUFFIXES) {
+        if (word.length - suffix.length >= 3 && word.endsWith(suffix)) return word.slice(0, -suffix.length);
+    }
+    return word;
+};
+
+/**
+ * Offline provider based on feature hashing: every word stem (and the concept
+ * it belongs to, if any) adds to a hashed dimension. Deterministic and free,
+ * but only as semantic as the built-in concept list and the extra concepts
+ * (synonym groups) it is given; use an HTTP provider with a real model for
+ * better recall.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+    readonly model: string;
+    private conceptOf: Map<string, string> = new Map(CONCEPT_OF); // Word stem -> concept
+
+    constructor(private dimensions: number = 256, extraConcepts: string[][] = []) {
+        extraConcepts.forEach((group, i) => {
+            // Multi-word entries ("mobile device management") have no single stem
+            const stems = group.filter(entry => /^[\p{L}\p{N}]+$/u.test(entry)).map(entry => stem(entry.toLowerCase()));
+            // A group with a word of a built-in concept extends that concept
+            const concept = stems.map(stemmed => this.conceptOf.get(stemmed)).find(Boolean) ?? `extra-${i}`;
+            for (const stemmed of stems) if (!this.conceptOf.has(stemmed)) this.conceptOf.set(stemmed, concept);
+        });
+        // Vectors change with the extra concepts, so they are part of the model name
+        const conceptsHash = extraConcepts.length > 0 ? `-${createHash('md5').update(JSON.stringify(extraConcepts)).digest('hex').slice(0, 8)}` : '';
+        this.model = `local-hash-${dimensions}${conceptsHash}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedOne(text));
+    }
+
+    private embedOne(text: string): number[] {
+        const vector = new Array<number>(this.dimensions).fill(0);
+        const words = text
+            .replace(/([a-z])([A-Z])/g, '$1 $2')
+            .toLowerCase()
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter(word => word.length > 1);
+
+        for (const word of words) {
+            const stemmed = stem(word);
+            this.add(vector, `w:${stemmed}`, 1);
+            const concept = this.conceptOf.get(stemmed) ?? this.conceptOf.get(word);
+            if (concept) this.add(vector, `c:${concept}`, CONCEPT_WEIGHT);
+        }
+
+        return normalize(vector);
+    }
+
+    private add(vector: number[], feature: string, weight: number) {
+        const hash = createHash('md5').update(feature).digest();
+        const sign = hash[4] & 1 ? 1 : -1;
+        vector[hash.readUInt32LE(0) % this.dimensions] += sign * weight;
+    }
+}
+
+interface EmbeddingsResponse {
+    data: { index: number; embedding: number[] }[];
+}
+
+/**
+ * Provider for self-hosted embedding servers with an OpenAI-compatible
+ * `POST /embeddings` endpoint (e.g. Ollama, LocalAI, text-embeddings-inference).
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+    readonly model: string;
+    private client: ApiClient;
+
+    constructor(baseUrl: string, model: string, apiKey?: string, private batchSize: number = 64) {
+        this.model = model;
+        this.client = new ApiClient(baseUrl, {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        });
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const vectors: number[][] = [];
+        for (let i = 0; i < texts.length; i += this.batchSize) {
+            const batch = texts.slice(i, i + this.batchSize);
+            const response = await this.client.post<EmbeddingsResponse>('/embeddings', { model: this.model, input: batch });
+            if (response.data?.length !== batch.length) {
+                throw new Error(`Embedding server returned ${response.data?.length ?? 0} vectors for ${batch.length} inputs`);
+            }
+            const ordered = [...response.data].sort((a, b) => a.index - b.index);
+            vectors.push(...ordered.map(item => normalize(item.embedding)));
+        }
+        return vectors;
+    }
+}
+
+/**
+ * Scales a vector to unit length, so that cosine similarity is a dot product.
+ */
+export function normalize(vector: number[]): number[] {
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return length === 0 ? vector : vector.map(value => value / length);
+}
+
+export function createEmbeddingProvider(): EmbeddingProvider | null {
+    switch (config.EMBEDDING_PROVIDER) {
+        case 'local':
+            return new LocalEmbeddingProvider(config.EMBEDDING_DIMENSIONS, fileConfig.search.synonyms['*']);
+        case 'http':
+            return new HttpEmbeddingProvider(config.EMBEDDING_URL!, config.EMBEDDING_MODEL!, config.EMBEDDING_API_KEY);
+        default:
+            return null;
+    }
+}
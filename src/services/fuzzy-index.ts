@@ -0,0 +1,120 @@
+/**
+ * Levenshtein distance between two terms.
+ */
+export function editDistance(a: string, b: string): number {
+    if (a.length === 0) return b.length;
+    if (b.length === 0) return a.length;
+
+    // Two rows of the dynamic programming matrix are enough
+    let previous = Array.from({ length: a.length + 1 }, (_, j) => j);
+    let current = new Array<number>(a.length + 1);
+
+    for (let i = 1; i <= b.length; i++) {
+        current[0] = i;
+        for (let j = 1; j <= a.length; j++) {
+            current[j] = b[i - 1] === a[j - 1]
+                ? previous[j - 1]
+                : 1 + Math.min(previous[j - 1], current[j - 1], previous[j]);
+        }
+        [previous, current] = [current, previous];
+    }
+
+    return previous[a.length];
+}
+
+/**
+ * Edits a term may be away from an indexed term and still match it. Short
+ * terms get none: at distance 1 "ui" would match "id", "io", "ux", ...
+ */
+export function editBudget(term: string): number {
+    if (term.length < 4) return 0;
+    return term.length < 8 ? 1 : 2;
+}
+
+export interface FuzzyMatch {
+    term: string;
+    distance: number;
+}
+
+interface BkNode {
+    term: string;
+    children: Map<number, BkNode>; // Edit distance to this node -> subtree
+}
+
+/**
+ * BK-tree over the indexed vocabulary. A lookup only compares the query
+ * term with the few terms whose distance to each visited node is within
+ * the budget, instead of with every term.
+ */
+export class VocabularyIndex {
+    private root?: BkNode;
+
+    /**
+     * @param frequencies Term -> number of chunks containing it, across all projects
+     * @param forms Term -> a word it was derived from, to show in suggestions
+     */
+    constructor(private frequencies: Map<string, number>, private forms: Map<string, string>) {
+        for (const term of frequencies.keys()) this.add(term);
+    }
+
+    private add(term: string) {
+        if (!this.root) {
+            this.root = { term, children: new Map() };
+            return;
+        }
+        let node = this.root;
+        while (true) {
+            const distance = editDistance(term, node.term);
+            if (distance === 0) return;
+            const child = node.children.get(distance);
+            if (!child) {
+                node.children.set(distance, { term, children: new Map() });
+                return;
+            }
+            node = child;
+        }
+    }
+
+    /**
+     * Indexed terms within `maxDistance` edits of the term, excluding the term itself.
+     */
+    within(term: string, maxDistance: number): FuzzyMatch[] {
+        const matches: FuzzyMatch[] = [];
+        if (!this.root || maxDistance <= 0) return matches;
+
+        const stack = [this.root];
+        while (stack.length > 0) {
+            const node = stack.pop()!;
+            const distance = editDistance(term, node.term);
+            if (distance > 0 && distance <= maxDistance) matches.push({ term: node.term, distance });
+            // Triangle inequality: only these subtrees can hold terms within the budget
+            for (const [childDistance, child] of node.children) {
+                if (Math.abs(childDistance - distance) <= maxDistance) stack.push(child);
+            }
+        }
+        return matches;
+    }
+
+    /**
+     * Variants a query term may match, within its length-scaled budget.
+     */
+    expansions(term: string): FuzzyMatch[] {
+        return this.within(term, editBudget(term));
+    }
+
+    /**
+     * The most likely intended term for one that is not indexed: the closest
+     * one, and the most common among equally close ones. The budget is one
+     * edit more generous than for matching, since this is only a hint.
+     */
+    suggest(term: string): string | undefined {
+        if (term.length < 3) return undefined;
+        const [best] = this.within(term, editBudget(term) + 1).sort((a, b) =>
+            a.distance - b.distance || (this.frequencies.get(b.term) ?? 0) - (this.frequencies.get(a.term) ?? 0));
+        return best && (this.forms.get(best.term) ?? best.term);
+    }
+
+    frequency(term: string): number {
+        return this.frequencies.get(term) ?? 0;
+    }
+}
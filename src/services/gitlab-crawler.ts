@@ -1,25 +1,37 @@
 
 import { ApiClient } from '../utils/api-client.js';
-import { config } from '../config.js';
-import { DocumentProcessor } from './document-processor.js';
+import { ProgressCallback } from '../utils/progress.js';
+import { metrics } from '../utils/metrics.js';
+import { GitLabConnection } from '../config.js';
+import { namespacedKey } from './connections.js';
+import { CrawlFilter, CrawlOverrides, crawlRulesFor, IGNORE_FILE, mergeSkipped, recordSkipped, SkippedFiles } from './crawl-rules.js';
+import { DocumentChunk, DocumentProcessor } from './document-processor.js';
 import { searchEngine } from './search-engine.js';
 import { resourceManager, ResourceManager } from './resource-manager.js';
 
 export class GitLabCrawler {
     private client: ApiClient;
+    private connection: GitLabConnection;
 
-    constructor(client: ApiClient) {
+    constructor(client: ApiClient, connection: GitLabConnection) {
         this.client = client;
+        this.connection = connection;
     }
 
     /**
      * Crawls a GitLab project, processes files, and indexes them.
+     * `onProgress` is called after each tree entry with (done, total, message).
+     * Which files are indexed follows the crawl rules of the project, the
+     * `overrides` and the project's .pm7ignore.
+     *
+     * Re-crawls are incremental unless `full` is set: files whose blob SHA is
+     * unchanged keep their chunks, and when neither the commit nor the rules
+     * changed the tree is not fetched at all. A `metadataOnly` crawl only
+     * registers resources and leaves the index as it is.
      */
-    /**
-     * Crawls a GitLab project, processes files, and indexes them.
-     */
-    async crawlProject(projectId: string, metadataOnly: boolean = false) {
+    async crawlProject(projectId: string, metadataOnly: boolean = false, onProgress?: ProgressCallback, overrides: CrawlOverrides = {}, full: boolean = false) {
         console.error(`Starting crawl for project ${projectId}...`);
+        const startedAt = Date.now();
 
         try {
             // 0. Get project details to find default branch
@@ -27,18 +39,86 @@ export class GitLabCrawler {
             const defaultBranch = project.default_branch || 'main';
             console.error(`Using default branch: ${defaultBranch}`);
 
+            // Index and resource key, namespaced by connection
+            const projectKey = namespacedKey(this.connection.name, project.path_with_namespace);
+            const projectInfo = {
+                name: project.name,
+                id: String(project.id),
+                url: project.web_url,
+                path_with_namespace: project.path_with_namespace,
+                key: projectKey
+            };
+
+            // Files are read at the commit, so a push during the crawl does not mix two versions
+            const commit = await this.getHeadCommit(projectId, defaultBranch);
+            const ref = commit ?? defaultBranch;
+            const rules = crawlRulesFor(projectKey, overrides);
+            const rulesKey = JSON.stringify(rules);
+            // Also read for a full crawl, to report what changed
+            const previous = metadataOnly ? undefined : searchEngine.getProject(projectKey);
+            const previousBlobs = previous?.source.blobs ?? {};
+            const previousSizes = previous?.source.sizes ?? {};
+            // Unchanged files were checked against the previous rules, which may allow larger files
+            const rulesChanged = previous?.source.rules !== rulesKey;
+
+            const upToDate = !full && !!commit && previous?.source.commit === commit && previous.source.rules === rulesKey
+                && resourceManager.getAllResources().some(resource => resource.projectPath === projectKey);
+            if (upToDate) {
+                // Re-indexed as is, which marks the project as freshly crawled
+                await searchEngine.indexProject(projectKey, previous.chunks, previous.source);
+                metrics.crawlDuration.set({ project: projectKey }, (Date.now() - startedAt) / 1000);
+                metrics.crawlTimestamp.set({ project: projectKey }, Math.floor(Date.now() / 1000));
+                const files = Object.keys(previousBlobs).length;
+                onProgress?.(1, 1, `${project.path_with_namespace} is unchanged since ${commit.slice(0, 8)}`);
+                console.error(`Project ${projectKey} is unchanged since commit ${commit}.`);
+                return {
+                    filesProcessed: files,
+                    chunksIndexed: previous.chunks.length,
+                    commit,
+                    upToDate,
+                    changes: { added: 0, changed: 0, removed: 0, unchanged: files },
+                    skipped: {} as SkippedFiles,
+                    resourcesRegistered: resourceManager.getAllResources().length,
+                    project: projectInfo
+                };
+            }
+
             // 1. Get the recursive file tree
-            const tree = await this.getRecursiveTree(projectId, defaultBranch);
+            const tree = await this.getRecursiveTree(projectId, ref);
             console.error(`Found ${tree.length} files in project ${projectId}`);
 
+            const ignoreEntry = tree.find(entry => entry.type === 'blob' && entry.path === IGNORE_FILE);
+            let ignoreFile = '';
+            if (ignoreEntry && !metadataOnly) {
+                try {
+                    ignoreFile = await this.fetchFileContent(projectId, IGNORE_FILE, ref);
+                } catch (err: any) {
+                    console.error(`Failed to fetch ${IGNORE_FILE}: ${err.message}`);
+                }
+            }
+            const filter = new CrawlFilter(rules, ignoreFile);
+
+            const previousChunks = new Map<string, DocumentChunk[]>();
+            for (const chunk of previous?.chunks ?? []) {
+                if (!previousChunks.has(chunk.filePath)) previousChunks.set(chunk.filePath, []);
+                previousChunks.get(chunk.filePath)!.push(chunk);
+            }
+
             const chunks = [];
             let processedCount = 0;
+            const skipped: SkippedFiles = {};
+            const blobs: Record<string, string> = {};
+            const sizes: Record<string, number> = {};
+            const changes = { added: 0, changed: 0, removed: 0, unchanged: 0 };
+            const registered = new Set<string>();
 
             // 2. Iterate and fetch content for supported files
-            for (const file of tree) {
-                const uri = ResourceManager.getUri(project.path_with_namespace, file.path);
-                const webUrl = `${config.GITLAB_URL}/${project.path_with_namespace}/-/blob/${defaultBranch}/${file.path}`;
-                const folderUrl = `${config.GITLAB_URL}/${project.path_with_namespace}/-/tree/${defaultBranch}/${file.path}`;
+            for (const [index, file] of tree.entries()) {
+                onProgress?.(index, tree.length, `Crawling ${project.path_with_namespace}: ${file.path}`);
+                const uri = ResourceManager.getUri(projectKey, file.path);
+                const webUrl = `${this.connection.url}/${project.path_with_namespace}/-/blob/${defaultBranch}/${file.path}`;
+                const folderUrl = `${this.connection.url}/${project.path_with_namespace}/-/tree/${defaultBranch}/${file.path}`;
+                registered.add(uri);
 
                 if (file.type === 'tree') { // Folder
                     // Register folder resource as YAML
@@ -60,41 +140,71 @@ export class GitLabCrawler {
                         mimeType: 'application/x-yaml',
                         text: JSON.stringify(folderYaml), // Store as stringified JSON/YAML for now, or just object? ResourceManager expects string text.
                         webUrl: folderUrl,
-                        projectPath: project.path_with_namespace,
+                        projectPath: projectKey,
                         instructionToLLM: `The folder contents should be retrieved using the tool - get-gitlab-folder and folderUrl.`
                     });
                 } else { // File
-                    const shouldProcess = this.shouldProcessFile(file.path);
                     let content = '';
                     let yamlContent: any = undefined;
 
                     // EXCEPTION: Always fetch README files
                     const isReadme = file.name.toLowerCase() === 'readme.md';
+                    // Registered by an earlier crawl of the same blob, README content included
+                    const unchangedResource = !full && !!file.id && resourceManager.getResource(uri)?.blobId === file.id;
 
                     if (isReadme) {
-                        try {
-                            content = await this.fetchFileContent(projectId, file.path, defaultBranch);
-                            yamlContent = {
-                                format: 'markdown',
-                                text: content
-                            };
-                        } catch (err: any) {
-                            console.error(`Failed to fetch README ${file.path}: ${err.message}`);
+                        if (!unchangedResource) {
+                            try {
+                                content = await this.fetchFileContent(projectId, file.path, ref);
+                                yamlContent = {
+                                    format: 'markdown',
+                                    text: content
+                                };
+                            } catch (err: any) {
+                                console.error(`Failed to fetch README ${file.path}: ${err.message}`);
+                            }
                         }
-                    } else if (shouldProcess && !metadataOnly) {
+                    } else if (!metadataOnly) {
                         // Indexing logic remains for search engine, but resource registration changes
-                        try {
-                            content = await this.fetchFileContent(projectId, file.path, defaultBranch);
-                            // Index for search
-                            const fileChunks = DocumentProcessor.chunkDocument(project.path_with_namespace, file.path, content);
-                            chunks.push(...fileChunks);
+                        const previousSize = previousSizes[file.path];
+                        // Without a recorded size the file is fetched again to check it against the new rules
+                        const reusable = !full && !!file.id && previousBlobs[file.path] === file.id
+                            && (!rulesChanged || previousSize !== undefined);
+                        const reason = filter.checkPath(file.path) ?? (reusable && rulesChanged ? filter.checkSize(previousSize) : undefined);
+                        if (reason) {
+                            recordSkipped(skipped, reason, file.path);
+                        } else if (reusable) {
+                            chunks.push(...previousChunks.get(file.path) ?? []);
+                            blobs[file.path] = file.id!;
+                            if (previousSize !== undefined) sizes[file.path] = previousSize;
                             processedCount++;
-                            await new Promise(resolve => setTimeout(resolve, 100));
-                        } catch (err: any) {
-                            console.error(`Failed to process file ${file.path}: ${err.message}`);
+                            changes.unchanged++;
+                        } else {
+                            try {
+                                content = await this.fetchFileContent(projectId, file.path, ref);
+                                const contentReason = filter.checkContent(content);
+                                if (contentReason) {
+                                    recordSkipped(skipped, contentReason, file.path);
+                                } else {
+                                    // Index for search
+                                    const fileChunks = DocumentProcessor.chunkDocument(projectKey, file.path, content);
+                                    chunks.push(...fileChunks);
+                                    if (file.id) blobs[file.path] = file.id;
+                                    sizes[file.path] = Buffer.byteLength(content);
+                                    processedCount++;
+                                    if (!(file.path in previousBlobs)) changes.added++;
+                                    else if (previousBlobs[file.path] !== file.id) changes.changed++;
+                                    else changes.unchanged++;
+                                }
+                            } catch (err: any) {
+                                console.error(`Failed to process file ${file.path}: ${err.message}`);
+                                recordSkipped(skipped, 'failed', file.path);
+                            }
                         }
                     }
 
+                    if (unchangedResource) continue;
+
                     // Register file resource as YAML
                     const fileYaml = {
                         Name: file.name,
@@ -111,25 +221,37 @@ export class GitLabCrawler {
                         mimeType: 'application/x-yaml',
                         text: JSON.stringify(fileYaml), // Store as stringified JSON/YAML
                         webUrl: webUrl,
-                        projectPath: project.path_with_namespace
+                        projectPath: projectKey,
+                        // A README that failed to fetch is retried on the next crawl
+                        blobId: isReadme && !yamlContent ? undefined : file.id
                     });
                 }
             }
 
-            // 3. Index the chunks
-            searchEngine.indexProject(project.path_with_namespace, chunks);
-            console.error(`Crawl complete. Indexed ${chunks.length} chunks from ${processedCount} files.`);
+            // Files deleted since the last crawl, or no longer matching the rules
+            changes.removed = Object.keys(previousBlobs).filter(filePath => !(filePath in blobs)).length;
+            const resourcesRemoved = resourceManager.pruneProjectResources(projectKey, registered);
+
+            // 3. Index the chunks. A metadata-only crawl leaves the index alone: recording
+            // its commit without chunks would make the next crawl skip the project as unchanged.
+            if (!metadataOnly) {
+                await searchEngine.indexProject(projectKey, chunks, { ref: defaultBranch, commit, blobs, sizes, rules: rulesKey });
+            }
+            resourceManager.notifyListChanged();
+            metrics.crawlDuration.set({ project: projectKey }, (Date.now() - startedAt) / 1000);
+            metrics.crawlTimestamp.set({ project: projectKey }, Math.floor(Date.now() / 1000));
+            onProgress?.(tree.length, tree.length, `Crawled ${project.path_with_namespace}`);
+            console.error(`Crawl complete. Indexed ${chunks.length} chunks from ${processedCount} files: ${changes.added} added, ${changes.changed} changed, ${changes.removed} removed, ${changes.unchanged} unchanged. Removed ${resourcesRemoved} resources.`);
 
             return {
                 filesProcessed: processedCount,
                 chunksIndexed: chunks.length,
+                commit,
+                upToDate,
+                changes,
+                skipped,
                 resourcesRegistered: resourceManager.getAllResources().length,
-                project: {
-                    name: project.name,
-                    id: String(project.id),
-                    url: project.web_url,
-                    path_with_namespace: project.path_with_namespace
-                }
+                project: projectInfo
             };
 
         } catch (error: any) {
@@ -138,34 +260,26 @@ export class GitLabCrawler {
         }
     }
 
-    private async getRecursiveTree(projectId: string, ref: string): Promise<any[]> {
-        let allFiles: any[] = [];
-        let page = 1;
-        const perPage = 100;
-
-        while (true) {
-            const files = await this.client.get<any[]>(`/projects/${encodeURIComponent(projectId)}/repository/tree`, {
-                recursive: 'true',
-                per_page: String(perPage),
-                page: String(page),
-                ref
-            });
-
-            if (files.length === 0) {
-                break;
-            }
-
-            allFiles = allFiles.concat(files);
-            page++;
-
-            // Safety break for extremely large repos to avoid infinite loops if API behaves unexpectedly
-            if (page > 100) {
-                console.warn('Reached 100 pages limit for tree fetching. Stopping.');
-                break;
-            }
+    /**
+     * SHA of the commit a branch points to. Undefined when it cannot be
+     * read (e.g. an empty repository); the crawl then reads the branch.
+     */
+    private async getHeadCommit(projectId: string, branch: string): Promise<string | undefined> {
+        try {
+            const commit = await this.client.get<any>(`/projects/${encodeURIComponent(projectId)}/repository/commits/${encodeURIComponent(branch)}`);
+            return commit.id;
+        } catch (err: any) {
+            console.error(`Failed to read the head commit of ${branch}: ${err.message}`);
+            return undefined;
         }
+    }
 
-        return allFiles;
+    private async getRecursiveTree(projectId: string, ref: string): Promise<any[]> {
+        return this.client.getAll<any>(`/projects/${encodeURIComponent(projectId)}/repository/tree`, {
+            recursive: 'true',
+            pagination: 'keyset',
+            ref
+        });
     }
 
     private async fetchFileContent(projectId: string, filePath: string, ref: string): Promise<string> {
@@ -175,32 +289,46 @@ export class GitLabCrawler {
         });
     }
 
-    async crawlAllProjects(metadataOnly: boolean = false) {
+    /**
+     * Crawls every project the user is a member of. Progress is reported in
+     * projects, with fractional steps while a project is being crawled.
+     */
+    async crawlAllProjects(metadataOnly: boolean = false, onProgress?: ProgressCallback, overrides: CrawlOverrides = {}, full: boolean = false) {
         console.error('Starting crawl for all accessible projects...');
         let allResults = {
             filesProcessed: 0,
             chunksIndexed: 0,
             resourcesRegistered: 0,
             projectsCrawled: 0,
+            projectsUnchanged: 0,
+            changes: { added: 0, changed: 0, removed: 0, unchanged: 0 },
+            skipped: {} as SkippedFiles,
             projects: [] as any[]
         };
 
         try {
             // Fetch all projects the user has access to
             // Using membership=true to get projects the user is a member of
-            const projects = await this.client.get<any[]>('/projects', {
+            const projects = await this.client.getAll<any>('/projects', {
                 membership: 'true',
-                simple: 'true', // Minimal details
-                per_page: '100'
+                simple: 'true' // Minimal details
             });
 
             console.error(`Found ${projects.length} projects.`);
 
-            for (const project of projects) {
+            for (const [index, project] of projects.entries()) {
                 try {
-                    const result = await this.crawlProject(String(project.id), metadataOnly);
+                    const result = await this.crawlProject(String(project.id), metadataOnly, onProgress && ((done, total, message) => {
+                        // Stay below index + 1 until the project is finished
+                        onProgress(index + (total ? Math.min(done / total, 0.99) : 0), projects.length, message);
+                    }), overrides, full);
                     allResults.filesProcessed += result.filesProcessed;
                     allResults.chunksIndexed += result.chunksIndexed;
+                    for (const key of Object.keys(allResults.changes) as (keyof typeof allResults.changes)[]) {
+                        allResults.changes[key] += result.changes[key];
+                    }
+                    if (result.upToDate) allResults.projectsUnchanged++;
+                    mergeSkipped(allResults.skipped, result.skipped, result.project.key);
                     allResults.projectsCrawled++;
                     allResults.projects.push(result.project);
                 } catch (err: any) {
@@ -209,6 +337,7 @@ export class GitLabCrawler {
             }
 
             allResults.resourcesRegistered = resourceManager.getAllResources().length;
+            onProgress?.(projects.length, projects.length, `Crawled ${allResults.projectsCrawled} of ${projects.length} projects`);
             return allResults;
 
         } catch (error: any) {
@@ -216,17 +345,4 @@ export class GitLabCrawler {
             throw error;
         }
     }
-
-    private shouldProcessFile(filePath: string): boolean {
-        const excludedDirs = ['node_modules', 'dist', 'build', '.git', 'coverage'];
-        // Only process markdown files for content indexing
-        const supportedExtensions = ['.md', '.markdown'];
-
-        // Check exclusions
-        if (excludedDirs.some(dir => filePath.includes(`${dir}/`))) return false;
-
-        // Check extension
-        const ext = filePath.substring(filePath.lastIndexOf('.')).toLowerCase();
-        return supportedExtensions.includes(ext);
-    }
 }
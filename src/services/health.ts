@@ -0,0 +1,94 @@
+import { config, connections, getMissingCredentials } from '../config.js';
+import { jiraApiBaseUrl, jiraAuthorization } from './connections.js';
+import { searchEngine } from './search-engine.js';
+
+const PROBE_TIMEOUT_MS = 5000;
+// Readiness probes run every few seconds; upstream checks are reused for this long
+const PROBE_CACHE_MS = 30 * 1000;
+
+export interface ReadinessCheck {
+    name: string; // e.g. 'gitlab:default', 'search-index'
+    status: 'ok' | 'unconfigured' | 'skipped' | 'failed';
+    detail?: string;
+}
+
+export interface ReadinessReport {
+    ready: boolean;
+    checks: ReadinessCheck[];
+}
+
+let cachedProbes: { at: number; checks: Promise<ReadinessCheck[]> } | undefined;
+
+/**
+ * Checks that a provider answers an authenticated request. Any non-2xx
+ * response (including 401) counts as a failure.
+ */
+async function probe(name: string, url: string, headers: Record<string, string>): Promise<ReadinessCheck> {
+    try {
+        const response = await fetch(url, { headers, signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+        await response.body?.cancel();
+        return response.ok
+            ? { name, status: 'ok' }
+            : { name, status: 'failed', detail: `${url} returned ${response.status} ${response.statusText}` };
+    } catch (error) {
+        return { name, status: 'failed', detail: `${url} is unreachable: ${error instanceof Error ? error.message : String(error)}` };
+    }
+}
+
+function probeProviders(): Promise<ReadinessCheck[]> {
+    const checks: Promise<ReadinessCheck>[] = [];
+    const unconfigured = (name: string, missing: string[]): ReadinessCheck =>
+        ({ name, status: 'unconfigured', detail: `missing ${missing.join(', ')}` });
+    // Recorded fixtures stand in for the services, so there is nothing to reach
+    const skipped = (name: string): ReadinessCheck => ({ name, status: 'skipped', detail: 'API_MODE=replay' });
+
+    const figmaMissing = getMissingCredentials('figma');
+    if (config.API_MODE === 'replay') {
+        checks.push(Promise.resolve(skipped('figma')));
+    } else if (figmaMissing.length > 0) {
+        checks.push(Promise.resolve(unconfigured('figma', figmaMissing)));
+    } else {
+        checks.push(probe('figma', 'https://api.figma.com/v1/me', { 'X-Figma-Token': config.FIGMA_ACCESS_TOKEN! }));
+    }
+
+    for (const connection of connections.gitlab) {
+        const name = `gitlab:${connection.name}`;
+        const missing = getMissingCredentials('gitlab', connection.name);
+        if (config.API_MODE === 'replay') checks.push(Promise.resolve(skipped(name)));
+        else if (missing.length > 0) checks.push(Promise.resolve(unconfigured(name, missing)));
+        else checks.push(probe(name, `${connection.url}/api/v4/version`, { 'PRIVATE-TOKEN': connection.token! }));
+    }
+
+    for (const connection of connections.jira) {
+        const name = `jira:${connection.name}`;
+        const missing = getMissingCredentials('jira', connection.name);
+        if (config.API_MODE === 'replay') checks.push(Promise.resolve(skipped(name)));
+        else if (missing.length > 0) checks.push(Promise.resolve(unconfigured(name, missing)));
+        else checks.push(probe(name, `${jiraApiBaseUrl(connection)}/myself`, {
+            'Authorization': jiraAuthorization(connection),
+            'Accept': 'application/json',
+        }));
+    }
+
+    return Promise.all(checks);
+}
+
+/**
+ * Readiness of the server: the search index is loaded and every provider
+ * with server credentials is reachable. Providers without credentials are
+ * reported but do not fail readiness, since users may bring their own.
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+    if (!cachedProbes || Date.now() - cachedProbes.at > PROBE_CACHE_MS) {
+        cachedProbes = { at: Date.now(), checks: probeProviders() };
+    }
+
+    const checks: ReadinessCheck[] = [
+        searchEngine.isLoaded()
+            ? { name: 'search-index', status: 'ok' }
+            : { name: 'search-index', status: 'failed', detail: 'the persisted search index could not be loaded' },
+        ...await cachedProbes.checks,
+    ];
+
+    return { ready: checks.every(check => check.status !== 'failed'), checks };
+}
@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import { DocumentChunk } from './document-processor.js';
+
+/**
+ * Version of the on-disk layout. Version 1 was the single `.gitlab_index.json`
+ * file of `[projectId, chunks]` pairs; it is migrated on first load.
+ */
+export const INDEX_SCHEMA_VERSION = 2;
+
+const MANIFEST_FILE = 'manifest.json';
+
+export interface ShardInfo {
+    file: string; // Relative to the index directory
+    chunks: number;
+    files?: number; // Not recorded by early version 2 manifests
+    updatedAt: string;
+    ref?: string; // Branch or commit the chunks were read from
+    commit?: string; // Commit SHA of the ref when the chunks were read
+    statsFile?: string; // Term statistics of the shard (ShardStats), relative to the index directory
+}
+
+/**
+ * Corpus statistics of a shard, kept next to it so that searches can skip
+ * shards without matches and still score like over the whole corpus.
+ */
+export interface ShardStats {
+    totalLength: number; // Terms in all chunks
+    documentFrequencies: Record<string, number>; // Term -> chunks containing it
+    forms: Record<string, string>; // Term -> the word it was derived from, where they differ
+}
+
+/**
+ * Where the chunks of a project were read from, so that a re-crawl can
+ * skip what has not changed.
+ */
+export interface ShardSource {
+    ref?: string;
+    commit?: string;
+    blobs?: Record<string, string>; // File path -> blob SHA of the indexed files
+    sizes?: Record<string, number>; // File path -> size in bytes of the indexed files
+    rules?: string; // The crawl rules the files were selected with, as JSON
+}
+
+interface Manifest {
+    schemaVersion: number;
+    projects: Record<string, ShardInfo>;
+}
+
+interface ShardFile {
+    schemaVersion: number;
+    projectId: string;
+    chunks: DocumentChunk[];
+    blobs?: Record<string, string>;
+    sizes?: Record<string, number>;
+    rules?: string;
+}
+
+export class IndexStoreError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'IndexStoreError';
+    }
+}
+
+export interface IndexStoreOptions {
+    compress?: boolean; // Gzip shard files (existing shards are read either way)
+    legacyFile?: string; // Version 1 index to migrate when there is no manifest yet
+}
+
+/**
+ * Persists the search index as one file per project plus a manifest. Every
+ * file is written to a temporary name and renamed into place, so a crash
+ * leaves either the old or the new version, never a partial one.
+ */
+export class IndexStore {
+    private manifest: Manifest = { schemaVersion: INDEX_SCHEMA_VERSION, projects: {} };
+    private openError?: unknown; // Why `open` failed; writes are refused so they cannot replace the unread manifest
+
+    constructor(private dir: string, private options: IndexStoreOptions = {}) {}
+
+    /**
+     * Reads the manifest, migrating a version 1 index if there is one.
+     * Shards themselves are read on demand by `loadShard`. The directory is
+     * only created by the first write.
+     *
+     * @throws when the manifest cannot be read; the store then refuses writes
+     */
+    open(): Map<string, ShardInfo> {
+        const manifestPath = path.join(this.dir, MANIFEST_FILE);
+
+        try {
+            if (fs.existsSync(manifestPath)) {
+                const manifest: Manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+                if (manifest.schemaVersion > INDEX_SCHEMA_VERSION) {
+                    throw new IndexStoreError(`Search index in ${this.dir} has schema version ${manifest.schemaVersion}, newer than supported version ${INDEX_SCHEMA_VERSION}. Upgrade PM7 or point SEARCH_INDEX_DIR elsewhere.`);
+                }
+                this.manifest = manifest;
+            } else if (this.options.legacyFile && fs.existsSync(this.options.legacyFile)) {
+                this.migrateLegacy(this.options.legacyFile);
+            }
+        } catch (error) {
+            this.openError = error;
+            throw error;
+        }
+
+        return new Map(Object.entries(this.manifest.projects));
+    }
+
+    loadShard(projectId: string): { chunks: DocumentChunk[]; source: ShardSource } {
+        const info = this.manifest.projects[projectId];
+        if (!info) return { chunks: [], source: {} };
+
+        const shard: ShardFile = JSON.parse(this.read(info.file).toString('utf-8'));
+        if (shard.projectId !== projectId) {
+            throw new IndexStoreError(`Search index shard ${path.join(this.dir, info.file)} belongs to ${shard.projectId}, expected ${projectId}`);
+        }
+        return { chunks: shard.chunks, source: { ref: info.ref, commit: info.commit, blobs: shard.blobs, sizes: shard.sizes, rules: shard.rules } };
+    }
+
+    /**
+     * The term statistics saved with a shard; undefined for shards saved
+     * without them (e.g. by older versions).
+     */
+    loadStats(projectId: string): ShardStats | undefined {
+        const statsFile = this.manifest.projects[projectId]?.statsFile;
+        if (!statsFile) return undefined;
+        return JSON.parse(this.read(statsFile).toString('utf-8'));
+    }
+
+    saveShard(projectId: string, chunks: DocumentChunk[], source: ShardSource = {}, stats?: ShardStats) {
+        const previous = this.manifest.projects[projectId];
+        const extension = `.json${this.options.compress ? '.gz' : ''}`;
+        const file = `${encodeURIComponent(projectId)}${extension}`;
+        const statsFile = stats ? `${encodeURIComponent(projectId)}.stats${extension}` : undefined;
+        const { ref, commit, blobs, sizes, rules } = source;
+        const data = Buffer.from(JSON.stringify({ schemaVersion: INDEX_SCHEMA_VERSION, projectId, chunks, blobs, sizes, rules } satisfies ShardFile));
+
+        this.writeAtomic(file, this.compress(data));
+        if (statsFile) this.writeAtomic(statsFile, this.compress(Buffer.from(JSON.stringify(stats))));
+        this.manifest.projects[projectId] = {
+            file,
+            chunks: chunks.length,
+            files: new Set(chunks.map(chunk => chunk.filePath)).size,
+            updatedAt: new Date().toISOString(),
+            ref,
+            commit,
+            statsFile,
+        };
+        this.writeManifest();
+
+        // The compression setting changed since the shard was last written
+        if (previous && previous.file !== file) fs.rmSync(path.join(this.dir, previous.file), { force: true });
+        if (previous?.statsFile && previous.statsFile !== statsFile) fs.rmSync(path.join(this.dir, previous.statsFile), { force: true });
+    }
+
+    removeShard(projectId: string) {
+        const info = this.manifest.projects[projectId];
+        if (!info) return;
+        delete this.manifest.projects[projectId];
+        // Manifest first: a shard file without a manifest entry is ignored
+        this.writeManifest();
+        fs.rmSync(path.join(this.dir, info.file), { force: true });
+        if (info.statsFile) fs.rmSync(path.join(this.dir, info.statsFile), { force: true });
+    }
+
+    private compress(data: Buffer): Buffer {
+        return this.options.compress ? gzipSync(data) : data;
+    }
+
+    // Gzipped files are recognized by name, so either setting reads both
+    private read(file: string): Buffer {
+        const raw = fs.readFileSync(path.join(this.dir, file));
+        return file.endsWith('.gz') ? gunzipSync(raw) : raw;
+    }
+
+    private writeManifest() {
+        this.writeAtomic(MANIFEST_FILE, Buffer.from(JSON.stringify(this.manifest, null, 2)));
+    }
+
+    private writeAtomic(file: string, data: Buffer) {
+        if (this.openError) {
+            throw new IndexStoreError(`Search index in ${this.dir} could not be opened, so it is not written to (${this.openError instanceof Error ? this.openError.message : String(this.openError)})`);
+        }
+        fs.mkdirSync(this.dir, { recursive: true });
+        const target = path.join(this.dir, file);
+        const temp = `${target}.${process.pid}.tmp`;
+        const fd = fs.openSync(temp, 'w');
+        try {
+            fs.writeSync(fd, data);
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        fs.renameSync(temp, target);
+    }
+
+    private migrateLegacy(legacyFile: string) {
+        const data: [string, DocumentChunk[]][] = JSON.parse(fs.readFileSync(legacyFile, 'utf-8'));
+        for (const [projectId, chunks] of data) {
+            this.saveShard(projectId, chunks);
+        }
+        // Written even for an empty index, so the migration runs only once
+        this.writeManifest();
+        console.error(`Migrated ${data.length} projects from ${legacyFile} to ${this.dir}; the old file is no longer used and can be deleted`);
+    }
+}
@@ -9,10 +9,12 @@ export interface GitLabResource {
     webUrl?: string; // Full GitLab web URL
     projectPath?: string; // Project path with namespace (e.g. group/project)
     instructionToLLM?: string; // Instruction for the LLM on how to use this resource
+    blobId?: string; // Blob SHA of a file, to skip refetching it when unchanged
 }
 
 export class ResourceManager {
     private resources: Map<string, GitLabResource> = new Map();
+    private listeners: Set<() => void> = new Set();
 
     /**
      * Registers a resource (file or folder).
@@ -46,6 +48,45 @@ export class ResourceManager {
         }
     }
 
+    /**
+     * Removes the resources of a project that are not in `keep`, such as
+     * files deleted since the last crawl. Returns how many were removed.
+     */
+    pruneProjectResources(projectId: string, keep: Set<string>): number {
+        let removed = 0;
+        for (const key of this.resources.keys()) {
+            if (key.startsWith(`gitlab://${projectId}/`) && !keep.has(key)) {
+                this.resources.delete(key);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Subscribes to resource list changes. Returns the unsubscribe function.
+     */
+    onListChanged(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Tells subscribers (connected MCP sessions) that the resource list changed.
+     * Called once per batch of registrations rather than per resource.
+     */
+    notifyListChanged() {
+        for (const listener of this.listeners) {
+            try {
+                listener();
+            } catch (error) {
+                console.error('Resource list listener failed:', error);
+            }
+        }
+    }
+
     /**
      * Helper to construct a URI.
      */
@@ -1,7 +1,14 @@
 
 import { DocumentChunk } from './document-processor.js';
-import * as fs from 'fs';
 import * as path from 'path';
+import { config } from '../config.js';
+import { Gauge, registry } from '../utils/metrics.js';
+import { IndexStore, ShardInfo, ShardSource, ShardStats } from './index-store.js';
+import { createEmbeddingProvider, EmbeddingProvider } from './embeddings.js';
+import { mayMatch, parseQuery, positiveText, QueryNode, requiresText } from './search-query.js';
+import { globToRegExp } from '../utils/glob.js';
+import { AnalyzedToken, analyzerFor } from './analyzer.js';
+import { FuzzyMatch, VocabularyIndex } from './fuzzy-index.js';
 
 export interface SearchResult {
     chunk: DocumentChunk;
@@ -10,241 +17,930 @@ export interface SearchResult {
         term: string;
         matchType: 'exact' | 'fuzzy' | 'semantic';
     }[];
+    fileHits?: number; // Matching chunks in the chunk's file, when results are collapsed by file
 }
 
+export interface SearchOptions {
+    collapseByFile?: boolean; // Only the best chunk of each file
+    projects?: string[]; // Only search these projects (default all)
+}
+
+export interface ExpandOptions {
+    before?: number; // Neighbouring chunks to include (default 1 each)
+    after?: number;
+    section?: boolean; // The whole section instead of neighbours
+}
+
+export interface IndexedProject {
+    projectId: string;
+    chunks: number;
+    files?: number; // Unknown for projects indexed by older versions until they are loaded
+    updatedAt: string; // When the project was last indexed
+    ref?: string; // Branch or commit the chunks were read from
+    commit?: string; // Commit SHA of the ref when crawled
+    loaded: boolean; // Read into memory (projects are loaded by the first search that can match them)
+}
+
+export interface IndexStats {
+    projects: number;
+    files: number;
+    chunks: number;
+    terms: number; // Distinct indexed terms
+    topTerms: { term: string; chunks: number }[]; // Terms in the most chunks
+    chunkSizes: { label: string; chunks: number }[]; // Chunks per content length range
+    medianChunkChars: number;
+    maxChunkChars: number;
+    staleProjects: IndexedProject[]; // Indexed longer ago than the given age, oldest first
+}
+
+interface Posting {
+    doc: number; // Position of the chunk in its shard
+    tf: number; // Occurrences of the term in the chunk
+    positions: number[]; // Word positions of the occurrences, for phrase queries
+}
+
+/**
+ * Inverted index over the chunks of one project. Shards are rebuilt as a
+ * whole when a project is re-crawled, so they never need in-place updates.
+ */
+interface ProjectShard {
+    chunks: DocumentChunk[];
+    docLengths: number[]; // Terms per chunk
+    totalLength: number;
+    postings: Map<string, Posting[]>; // Term -> chunks containing it, in doc order
+    titlePostings: Map<string, Set<number>>; // Term -> chunks whose title contains it
+    forms: Map<string, string>; // Term -> a word it was derived from
+    updatedAt: string;
+    source: ShardSource;
+}
+
+/**
+ * Statistics over every indexed project, loaded or not, so that scores do
+ * not depend on which shards a search happened to read.
+ */
+interface CorpusStats {
+    docs: number;
+    totalLength: number;
+    frequencies: Map<string, number>; // Term -> chunks containing it
+    forms: Map<string, string>; // Term -> a word it was derived from
+    vocabulary?: VocabularyIndex; // For fuzzy matching, built on first use
+}
+
+// How a chunk matches one term or phrase of a query
+interface LeafHit {
+    score: number;
+    matchDetails: SearchResult['matchDetails'];
+}
+
+/**
+ * A parsed query bound to one shard.
+ */
+interface ShardMatcher {
+    shardId: string;
+    shard: ProjectShard;
+    textRequired: boolean; // Every match contains a term or phrase of the query
+    candidates(): Iterable<number>; // Chunks that may match
+    matches(doc: number, textAsMatched: boolean): boolean;
+    score(doc: number): SearchResult;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_BOOST = 2.0;
+const PROJECT_BOOST = 1.5;
+const FUZZY_DECAY = 0.5; // Score factor per edit, so fuzzy hits rank below exact ones
+
+// Hybrid search: each ranking contributes (RRF_K + 1) / (RRF_K + rank) per
+// chunk, so a chunk ranked first by both scores 2
+const RRF_K = 60;
+const RRF_DEPTH = 100; // Results taken from each ranking
+const MIN_SIMILARITY = 0.2; // Cosine similarity below which a chunk is not a semantic match
+
+// Upper bounds (in characters) of the chunk size ranges reported by `stats`
+const CHUNK_SIZE_BOUNDS = [250, 1000, 2500, 5000, Infinity];
+
+// File extension -> language, for `lang:` filters
+const LANGUAGES: Record<string, string> = {
+    ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+    py: 'python', go: 'go', golang: 'go', java: 'java', kt: 'kotlin', rs: 'rust', rb: 'ruby', php: 'php', cs: 'csharp',
+    c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp', hpp: 'cpp', swift: 'swift', scala: 'scala', sh: 'shell', bash: 'shell',
+    md: 'markdown', markdown: 'markdown', yml: 'yaml', yaml: 'yaml', json: 'json', sql: 'sql', html: 'html', css: 'css',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
 export class SearchEngine {
-    private index: Map<string, DocumentChunk[]> = new Map();
-    private readonly INDEX_FILE = '.gitlab_index.json';
+    private shards: Map<string, ProjectShard> = new Map();
+    private unloaded: Map<string, ShardInfo> = new Map(); // Persisted shards not read yet
+    private persistedStats: Map<string, ShardStats | null> = new Map(); // Of unloaded shards, null when they have none
+    private corpus?: CorpusStats; // Built on demand after the index changes
+    private loaded = false;
 
-    constructor() {
-        this.loadIndex();
+    /**
+     * @param store Where the index is persisted, or null to keep it in memory only
+     */
+    constructor(private store: IndexStore | null = null, private embeddings: EmbeddingProvider | null = null) {
+        this.openStore();
     }
 
     /**
-     * Adds document chunks to the search index.
+     * Adds document chunks to the search index, embedding them first when an
+     * embedding provider is configured.
+     *
+     * @param source Where the chunks were read from; the ref and commit are shown by `listProjects`
      */
-    indexProject(projectId: string, chunks: DocumentChunk[]) {
-        this.index.set(projectId, chunks);
+    async indexProject(projectId: string, chunks: DocumentChunk[], source: ShardSource = {}) {
+        await this.embedChunks(projectId, chunks);
+        this.shards.set(projectId, this.buildShard(projectId, chunks, new Date().toISOString(), source));
+        this.unloaded.delete(projectId);
+        this.persistedStats.delete(projectId);
+        this.corpus = undefined;
         console.error(`Indexed ${chunks.length} chunks for project ${projectId}`);
-        this.saveIndex();
+        try {
+            this.store?.saveShard(projectId, chunks, source, SearchEngine.shardStats(this.shards.get(projectId)!));
+        } catch (error) {
+            console.error(`Failed to save search index for project ${projectId}:`, error);
+        }
     }
 
     /**
-     * Persist index to disk
+     * Sets `chunk.embedding` on chunks that lack one from the current model.
+     * Without embeddings the chunks are still found by keyword search.
      */
-    private saveIndex() {
+    private async embedChunks(projectId: string, chunks: DocumentChunk[]) {
+        if (!this.embeddings) return;
+        const model = this.embeddings.model;
+        const pending = chunks.filter(chunk => chunk.embedding?.model !== model);
+        if (pending.length === 0) return;
+
         try {
-            const data = JSON.stringify(Array.from(this.index.entries()));
-            fs.writeFileSync(path.join(process.cwd(), this.INDEX_FILE), data);
+            const vectors = await this.embeddings.embed(pending.map(chunk => SearchEngine.embeddingText(chunk)));
+            pending.forEach((chunk, i) => {
+                // Four decimals keep the persisted index small without changing rankings
+                chunk.embedding = { model, vector: vectors[i].map(value => Math.round(value * 1e4) / 1e4) };
+            });
         } catch (error) {
-            console.error('Failed to save search index:', error);
+            console.error(`Failed to embed chunks for project ${projectId}, semantic search will not cover them:`, error);
         }
     }
 
+    private static embeddingText(chunk: DocumentChunk): string {
+        return [chunk.metadata.breadcrumb?.join(' > '), chunk.metadata.title, chunk.filePath, chunk.content].filter(Boolean).join('\n');
+    }
+
     /**
-     * Load index from disk
+     * The chunk's content followed by the metadata that should find it too:
+     * the enclosing headings and the document's front matter.
      */
-    private loadIndex() {
+    private static indexedText(chunk: DocumentChunk): string {
+        const { breadcrumb, tags, owner, status } = chunk.metadata;
+        return [chunk.content, breadcrumb?.join('\n'), tags?.join('\n'), owner, status].filter(Boolean).join('\n');
+    }
+
+    /**
+     * Reads the list of persisted projects. Their chunks are only read when
+     * first searched, so startup time does not grow with the index.
+     */
+    private openStore() {
+        if (!this.store) {
+            this.loaded = true;
+            return;
+        }
         try {
-            const filePath = path.join(process.cwd(), this.INDEX_FILE);
-            if (fs.existsSync(filePath)) {
-                const data = fs.readFileSync(filePath, 'utf-8');
-                this.index = new Map(JSON.parse(data));
-                console.error('Loaded search index from disk');
-            }
+            this.unloaded = this.store.open();
+            this.loaded = true;
         } catch (error) {
-            console.error('Failed to load search index:', error);
+            // The store refuses writes after this, so crawls are searchable but not persisted
+            console.error('Failed to load search index, indexed projects will not be saved:', error);
         }
     }
 
     /**
-     * Smart tokenization that handles camelCase, snake_case, etc.
+     * Reads every persisted shard that is not in memory yet. Postings are not
+     * persisted; they are rebuilt from the chunks.
      */
-    private tokenize(text: string): string[] {
-        // 1. Split by non-alphanumeric characters
-        const rawTokens = text.split(/[^a-zA-Z0-9]+/);
+    private loadShards() {
+        for (const projectId of Array.from(this.unloaded.keys())) this.loadShard(projectId);
+    }
 
-        const tokens: string[] = [];
-        for (const token of rawTokens) {
-            if (!token) continue;
+    /**
+     * Reads the persisted shards that may contain matches for the query,
+     * judged by their persisted statistics. Shards indexed by older versions
+     * have none and are always read.
+     */
+    private loadShardsFor(ast: QueryNode, projects?: string[]) {
+        for (const projectId of Array.from(this.unloaded.keys())) {
+            if (projects && !projects.includes(projectId)) continue;
+            const frequencies = this.shardStatsOf(projectId)?.documentFrequencies;
+            if (!frequencies) {
+                this.loadShard(projectId);
+                continue;
+            }
+            const analyzer = analyzerFor(projectId);
+            const indexed = (term: string) => (frequencies[term] ?? 0) > 0
+                || this.vocabularyIndex().expansions(term).some(({ term: variant }) => (frequencies[variant] ?? 0) > 0);
+
+            const relevant = mayMatch(ast, leaf => {
+                if (leaf.type === 'field') {
+                    return leaf.field !== 'project'
+                        || SearchEngine.matchesPattern(projectId, leaf.value)
+                        || SearchEngine.matchesPattern(projectId.replace(/^[^:/]+:/, ''), leaf.value);
+                }
+                // Semantic search may match chunks without any of the words
+                if (this.embeddings) return true;
+                // As in shardMatchers: every term, or fuzzy variant of it, of the
+                // text or of one of its synonyms
+                const terms = analyzer.terms(leaf.value, { mode: 'query', kind: 'prose' });
+                const fuzzy = leaf.type === 'term';
+                return [terms, ...analyzer.synonyms(terms)].some(variant =>
+                    variant.every(term => fuzzy && variant === terms ? indexed(term) : (frequencies[term] ?? 0) > 0));
+            });
+            if (relevant) this.loadShard(projectId);
+        }
+    }
 
-            // 2. Split camelCase (e.g., "GitLabCrawler" -> "Git", "Lab", "Crawler")
-            const camelParts = token.replace(/([a-z])([A-Z])/g, '$1 $2').split(' ');
+    /**
+     * The persisted statistics of an unloaded shard, read on first use.
+     * Undefined when it has none or they cannot be read.
+     */
+    private shardStatsOf(projectId: string): ShardStats | undefined {
+        let stats = this.persistedStats.get(projectId);
+        if (stats === undefined) {
+            try {
+                stats = this.store!.loadStats(projectId) ?? null;
+            } catch (error) {
+                console.error(`Failed to load search index statistics for project ${projectId}, reading the project instead:`, error);
+                stats = null;
+            }
+            this.persistedStats.set(projectId, stats);
+        }
+        return stats ?? undefined;
+    }
 
-            for (const part of camelParts) {
-                // 3. Lowercase and filter stop words
-                const lower = part.toLowerCase();
-                if (lower.length > 2 && !this.isStopWord(lower)) {
-                    tokens.push(lower);
-                }
+    private loadShard(projectId: string) {
+        const info = this.unloaded.get(projectId);
+        if (!info) return;
+        const persisted = this.persistedStats.get(projectId);
+        this.unloaded.delete(projectId);
+        this.persistedStats.delete(projectId);
+        try {
+            const { chunks, source } = this.store!.loadShard(projectId);
+            const shard = this.buildShard(projectId, chunks, info.updatedAt, source);
+            this.shards.set(projectId, shard);
+            // The corpus already counted the shard by its persisted statistics, unless
+            // they were not read, are missing or came from other analyzer settings
+            if (shard.totalLength !== persisted?.totalLength) this.corpus = undefined;
+
+            const model = this.embeddings?.model;
+            const missing = model ? chunks.filter(chunk => chunk.embedding?.model !== model).length : 0;
+            if (missing > 0) {
+                console.error(`${missing} chunks of project ${projectId} have no ${model} embeddings; re-crawl it to include them in semantic search`);
             }
+        } catch (error) {
+            // Dropped until the project is crawled again
+            console.error(`Failed to load search index for project ${projectId}:`, error);
         }
-        return tokens;
     }
 
-    private isStopWord(word: string): boolean {
-        const stopWords = new Set([
-            'the', 'is', 'at', 'of', 'on', 'and', 'a', 'an', 'in', 'to', 'for', 'with', 'by', 'about', 'as',
-            'this', 'that', 'these', 'those', 'are', 'was', 'were', 'be', 'been', 'being',
-            'have', 'has', 'had', 'do', 'does', 'did', 'but', 'if', 'or', 'because', 'as', 'until', 'while',
-            'function', 'class', 'const', 'var', 'let', 'return', 'import', 'export', 'default' // Code stop words
-        ]);
-        return stopWords.has(word);
+    private buildShard(projectId: string, chunks: DocumentChunk[], updatedAt: string, source: ShardSource): ProjectShard {
+        const shard: ProjectShard = { chunks, docLengths: [], totalLength: 0, postings: new Map(), titlePostings: new Map(), forms: new Map(), updatedAt, source };
+        const analyzer = analyzerFor(projectId);
+
+        chunks.forEach((chunk, doc) => {
+            const kind = chunk.metadata.type === 'code' || chunk.metadata.cellType === 'code' ? 'code' : 'prose';
+            const tokens = analyzer.analyze(SearchEngine.indexedText(chunk), { mode: 'index', kind });
+            shard.docLengths.push(tokens.length);
+            shard.totalLength += tokens.length;
+
+            const positions = new Map<string, number[]>();
+            for (const { term, position, form } of tokens) {
+                if (!shard.forms.has(term)) shard.forms.set(term, form);
+                let list = positions.get(term);
+                if (!list) positions.set(term, list = []);
+                // Two forms of one word can stem to the same term
+                if (list[list.length - 1] !== position) list.push(position);
+            }
+            for (const [term, termPositions] of positions) {
+                let list = shard.postings.get(term);
+                if (!list) shard.postings.set(term, list = []);
+                list.push({ doc, tf: termPositions.length, positions: termPositions });
+            }
+
+            for (const term of new Set(analyzer.terms(chunk.metadata.title ?? '', { mode: 'index', kind: 'prose' }))) {
+                let docs = shard.titlePostings.get(term);
+                if (!docs) shard.titlePostings.set(term, docs = new Set());
+                docs.add(doc);
+            }
+        });
+
+        return shard;
     }
 
     /**
-     * Levenshtein distance for fuzzy matching
+     * The statistics persisted with a shard, which stand in for it in corpus
+     * statistics while it is not loaded.
      */
-    private levenshteinDistance(a: string, b: string): number {
-        if (a.length === 0) return b.length;
-        if (b.length === 0) return a.length;
-
-        const matrix = [];
+    private static shardStats(shard: ProjectShard): ShardStats {
+        const stats: ShardStats = { totalLength: shard.totalLength, documentFrequencies: {}, forms: {} };
+        for (const [term, postings] of shard.postings) stats.documentFrequencies[term] = postings.length;
+        for (const [term, form] of shard.forms) if (form !== term) stats.forms[term] = form;
+        return stats;
+    }
 
-        for (let i = 0; i <= b.length; i++) {
-            matrix[i] = [i];
+    /**
+     * Corpus statistics over the loaded shards and the persisted statistics
+     * of the others, built on first use after the index changes. Shards
+     * without persisted statistics are loaded first.
+     */
+    private corpusStats(): CorpusStats {
+        if (!this.corpus) {
+            for (const projectId of Array.from(this.unloaded.keys())) if (!this.shardStatsOf(projectId)) this.loadShard(projectId);
+
+            const corpus: CorpusStats = { docs: 0, totalLength: 0, frequencies: new Map(), forms: new Map() };
+            const count = (term: string, df: number) => corpus.frequencies.set(term, (corpus.frequencies.get(term) ?? 0) + df);
+            for (const shard of this.shards.values()) {
+                corpus.docs += shard.chunks.length;
+                corpus.totalLength += shard.totalLength;
+                for (const [term, postings] of shard.postings) count(term, postings.length);
+                for (const [term, form] of shard.forms) if (!corpus.forms.has(term)) corpus.forms.set(term, form);
+            }
+            for (const [projectId, info] of this.unloaded) {
+                const stats = this.shardStatsOf(projectId)!;
+                corpus.docs += info.chunks;
+                corpus.totalLength += stats.totalLength;
+                for (const [term, df] of Object.entries(stats.documentFrequencies)) count(term, df);
+                for (const [term, form] of Object.entries(stats.forms)) if (!corpus.forms.has(term)) corpus.forms.set(term, form);
+            }
+            this.corpus = corpus;
         }
+        return this.corpus;
+    }
 
-        for (let j = 0; j <= a.length; j++) {
-            matrix[0][j] = j;
-        }
+    /**
+     * Fuzzy lookup structure over the terms of all shards.
+     */
+    private vocabularyIndex(): VocabularyIndex {
+        const corpus = this.corpusStats();
+        return corpus.vocabulary ??= new VocabularyIndex(corpus.frequencies, corpus.forms);
+    }
 
-        for (let i = 1; i <= b.length; i++) {
-            for (let j = 1; j <= a.length; j++) {
-                if (b.charAt(i - 1) === a.charAt(j - 1)) {
-                    matrix[i][j] = matrix[i - 1][j - 1];
-                } else {
-                    matrix[i][j] = Math.min(
-                        matrix[i - 1][j - 1] + 1, // substitution
-                        Math.min(
-                            matrix[i][j - 1] + 1, // insertion
-                            matrix[i - 1][j] + 1 // deletion
-                        )
-                    );
-                }
+    /**
+     * A corrected query when some of its words are not indexed but close to
+     * indexed ones, e.g. "enrolment polcy" -> "enrollment policy".
+     */
+    suggest(query: string): string | undefined {
+        let ast: QueryNode | null;
+        try {
+            ast = this.prune(parseQuery(query));
+        } catch (error) {
+            return undefined;
+        }
+        if (!ast) return undefined;
+
+        const vocabulary = this.vocabularyIndex();
+        let suggestion = query;
+        for (const leaf of positiveText(ast)) {
+            for (const token of analyzerFor().analyze((leaf as { value: string }).value, { mode: 'query', kind: 'prose' })) {
+                if (vocabulary.frequency(token.term) > 0) continue;
+                const replacement = vocabulary.suggest(token.term);
+                if (replacement) suggestion = suggestion.replace(new RegExp(escapeRegExp(token.form), 'iu'), replacement);
             }
         }
-
-        return matrix[b.length][a.length];
+        return suggestion !== query ? suggestion : undefined;
     }
 
     /**
-     * Searches for chunks matching the query using BM25 and fuzzy matching.
+     * Searches for chunks matching the query (see search-query.ts for the
+     * syntax). Keyword (BM25) results are fused with semantic results by
+     * reciprocal rank fusion when an embedding provider is configured;
+     * otherwise BM25 scores are returned.
+     *
+     * @throws QuerySyntaxError when the query cannot be parsed
      */
-    search(projectId: string | undefined, query: string, limit: number = 5): SearchResult[] {
-        let allChunks: DocumentChunk[] = [];
-
-        if (projectId && this.index.has(projectId)) {
-            allChunks = this.index.get(projectId) || [];
-            // If specific project requested, we might want to search others too but with lower priority?
-            // For now, let's stick to the previous logic: search ALL, boost project.
-            for (const [pid, chunks] of this.index.entries()) {
-                if (pid !== projectId) allChunks.push(...chunks);
-            }
-        } else {
-            for (const chunks of this.index.values()) {
-                allChunks.push(...chunks);
+    async search(projectId: string | undefined, query: string, limit: number = 5, options: SearchOptions = {}): Promise<SearchResult[]> {
+        const ast = this.prune(parseQuery(query));
+        if (!ast) return [];
+
+        // Shards that cannot match are not read; scores still use corpus-wide statistics
+        this.loadShardsFor(ast, options.projects);
+        const matchers = this.shardMatchers(ast, options.projects);
+
+        const keyword = this.keywordSearch(projectId, matchers);
+        const text = positiveText(ast).map(leaf => (leaf as { value: string }).value).join(' ');
+
+        let semantic: SearchResult[] = [];
+        if (this.embeddings && text) {
+            try {
+                semantic = await this.semanticSearch(projectId, text, matchers);
+            } catch (error) {
+                console.error('Semantic search failed, falling back to keyword search:', error);
             }
         }
 
-        if (allChunks.length === 0) return [];
+        const ranked = semantic.length > 0 ? SearchEngine.fuse([keyword.slice(0, RRF_DEPTH), semantic]) : keyword;
+        return (options.collapseByFile ? SearchEngine.collapseByFile(ranked) : ranked).slice(0, limit);
+    }
 
-        const queryTerms = this.tokenize(query);
-        if (queryTerms.length === 0) return [];
+    /**
+     * Keeps the best chunk of each file, counting the file's other matches.
+     */
+    private static collapseByFile(ranked: SearchResult[]): SearchResult[] {
+        const byFile = new Map<string, SearchResult>();
+        for (const result of ranked) {
+            const key = `${result.chunk.projectId}\n${result.chunk.filePath}`;
+            const best = byFile.get(key);
+            if (best) best.fileHits!++;
+            else byFile.set(key, { ...result, fileHits: 1 });
+        }
+        // Map order is insertion order, i.e. by each file's best score
+        return Array.from(byFile.values());
+    }
 
-        // BM25 Parameters
-        const k1 = 1.2;
-        const b = 0.75;
+    /**
+     * An indexed chunk with the chunks around it in the same file: `before`
+     * and `after` neighbours, or the whole section it belongs to. Undefined
+     * if no chunk has the ID (e.g. the project was re-crawled since).
+     */
+    expandChunk(chunkId: string, options: ExpandOptions): DocumentChunk[] | undefined {
+        // Chunk IDs start with the project ID
+        for (const projectId of Array.from(this.unloaded.keys())) {
+            if (chunkId.startsWith(`${projectId}:`)) this.loadShard(projectId);
+        }
+        for (const shard of this.shards.values()) {
+            const chunk = shard.chunks.find(candidate => candidate.id === chunkId);
+            if (!chunk) continue;
 
-        // Calculate avg document length
-        const avgDocLength = allChunks.reduce((sum, chunk) => sum + chunk.content.length, 0) / allChunks.length;
+            const file = shard.chunks
+                .filter(candidate => candidate.filePath === chunk.filePath)
+                .sort((a, b) => (a.metadata.startLine ?? 0) - (b.metadata.startLine ?? 0));
+            const index = file.indexOf(chunk);
 
-        // Calculate IDF for each query term
-        const idf: Record<string, number> = {};
-        for (const term of queryTerms) {
-            let docCount = 0;
-            for (const chunk of allChunks) {
-                if (chunk.content.toLowerCase().includes(term)) {
-                    docCount++;
-                }
+            if (!options.section) {
+                return file.slice(Math.max(0, index - (options.before ?? 1)), index + (options.after ?? 1) + 1);
+            }
+
+            // Markdown: the heading and its subsections. Other titled chunks:
+            // the adjacent chunks with the same title. Untitled: the whole file.
+            const level = SearchEngine.headingLevel(chunk);
+            const inSection = (candidate: DocumentChunk) => level !== undefined
+                ? (SearchEngine.headingLevel(candidate) ?? Infinity) > level
+                : candidate.metadata.title === chunk.metadata.title;
+            let start = index;
+            let end = index + 1;
+            if (level === undefined) {
+                while (start > 0 && inSection(file[start - 1])) start--;
             }
-            // IDF formula
-            idf[term] = Math.log(1 + (allChunks.length - docCount + 0.5) / (docCount + 0.5));
+            while (end < file.length && inSection(file[end])) end++;
+            return file.slice(start, end);
         }
+        return undefined;
+    }
 
-        const scoredChunks: SearchResult[] = allChunks.map(chunk => {
-            let score = 0;
-            const matchDetails: any[] = [];
-            const contentLower = chunk.content.toLowerCase();
-            const docLength = chunk.content.length;
+    private static headingLevel(chunk: DocumentChunk): number | undefined {
+        if (chunk.metadata.type !== 'markdown') return undefined;
+        const heading = chunk.content.match(/^(#{1,6})\s/);
+        return heading ? heading[1].length : undefined;
+    }
 
-            for (const term of queryTerms) {
-                // Check for exact match or fuzzy match
-                let termFreq = 0;
-                let matchType: 'exact' | 'fuzzy' | null = null;
+    /**
+     * Drops terms and phrases without indexable tokens (stop words, short
+     * words, punctuation), which could never match. Null if nothing is left.
+     */
+    private prune(node: QueryNode): QueryNode | null {
+        switch (node.type) {
+            case 'term':
+            case 'phrase':
+                return analyzerFor().terms(node.value, { mode: 'query', kind: 'prose' }).length > 0 ? node : null;
+            case 'field':
+                return node;
+            case 'not': {
+                const child = this.prune(node.child);
+                return child && { type: 'not', child };
+            }
+            case 'and':
+            case 'or': {
+                const children = node.children.map(child => this.prune(child)).filter((child): child is QueryNode => !!child);
+                if (children.length === 0) return null;
+                return children.length === 1 ? children[0] : { type: node.type, children };
+            }
+        }
+    }
 
-                // Exact match count
-                const regex = new RegExp(term, 'gi');
-                const matches = contentLower.match(regex);
-                if (matches) {
-                    termFreq = matches.length;
-                    matchType = 'exact';
-                } else {
-                    // Fuzzy match check (only if exact match failed)
-                    // We scan words in content? That's expensive.
-                    // Optimization: Just check if the term exists as a substring with tolerance?
-                    // For performance, let's stick to exact substring inclusion for "fuzzy" in this context
-                    // or check tokens.
-                    // Let's tokenize the content properly for fuzzy check
-                    const contentTokens = this.tokenize(chunk.content);
-                    for (const token of contentTokens) {
-                        if (this.levenshteinDistance(term, token) <= 2) { // Allow 2 edits
-                            termFreq++;
-                            matchType = 'fuzzy';
+    /**
+     * Prepares the evaluation of the query against every shard (of the given
+     * projects). Each term and phrase is looked up once per shard, with the
+     * shard's synonyms.
+     */
+    private shardMatchers(ast: QueryNode, projects?: string[]): ShardMatcher[] {
+        const corpus = this.corpusStats();
+        const totalDocs = corpus.docs;
+        const avgDocLength = corpus.totalLength / totalDocs || 1;
+
+        const idfCache = new Map<string, number>();
+        const idf = (term: string) => {
+            let value = idfCache.get(term);
+            if (value === undefined) {
+                const df = corpus.frequencies.get(term) ?? 0;
+                idfCache.set(term, value = Math.log(1 + (totalDocs - df + 0.5) / (df + 0.5)));
+            }
+            return value;
+        };
+        const expansionCache = new Map<string, FuzzyMatch[]>();
+        const expansions = (term: string) => {
+            let value = expansionCache.get(term);
+            if (!value) expansionCache.set(term, value = this.vocabularyIndex().expansions(term));
+            return value;
+        };
+
+        const textLeaves: QueryNode[] = [];
+        const collect = (node: QueryNode) => {
+            if (node.type === 'term' || node.type === 'phrase') textLeaves.push(node);
+            if (node.type === 'not') collect(node.child);
+            if (node.type === 'and' || node.type === 'or') node.children.forEach(collect);
+        };
+        collect(ast);
+
+        const positive = positiveText(ast);
+        const textRequired = requiresText(ast);
+
+        const shards = Array.from(this.shards).filter(([shardId]) => !projects || projects.includes(shardId));
+        return shards.map(([shardId, shard]) => {
+            const analyzer = analyzerFor(shardId);
+            const queryTokens = (text: string) => analyzer.analyze(text, { mode: 'query', kind: 'prose' });
+            const saturation = (tf: number, doc: number) =>
+                tf * (K1 + 1) / (tf + K1 * (1 - B + B * (shard.docLengths[doc] / avgDocLength)));
+            const bm25 = (term: string, tf: number, doc: number) => idf(term) * saturation(tf, doc);
+
+            // Chunks containing every term, each exactly or (if not) as its best
+            // fuzzy variant, scored with the variant's weight decayed per edit. A
+            // rare variant of a common term is weighted like the term, so that it
+            // does not outrank the exact matches.
+            const allTerms = (terms: string[], fuzzy: boolean): Map<number, LeafHit> => {
+                const perTerm = terms.map(term => {
+                    const hits = new Map<number, { score: number; term: string; matchType: 'exact' | 'fuzzy' }>();
+                    for (const { doc, tf } of shard.postings.get(term) ?? []) {
+                        const title = shard.titlePostings.get(term)?.has(doc) ? TITLE_BOOST : 0;
+                        hits.set(doc, { score: bm25(term, tf, doc) + title, term, matchType: 'exact' });
+                    }
+                    for (const { term: variant, distance } of fuzzy ? expansions(term) : []) {
+                        for (const { doc, tf } of shard.postings.get(variant) ?? []) {
+                            const score = Math.min(idf(term), idf(variant)) * saturation(tf, doc) * FUZZY_DECAY ** distance;
+                            const hit = hits.get(doc);
+                            if (!hit || (hit.matchType === 'fuzzy' && hit.score < score)) hits.set(doc, { score, term: variant, matchType: 'fuzzy' });
                         }
                     }
+                    return hits;
+                });
+
+                const result = new Map<number, LeafHit>();
+                for (const doc of perTerm[0]?.keys() ?? []) {
+                    if (!perTerm.every(hits => hits.has(doc))) continue;
+                    const hit: LeafHit = { score: 0, matchDetails: [] };
+                    for (const hits of perTerm) {
+                        const { score, term, matchType } = hits.get(doc)!;
+                        hit.score += score;
+                        hit.matchDetails.push({ term, matchType });
+                    }
+                    result.set(doc, hit);
+                }
+                return result;
+            };
+
+            const phrase = (tokens: AnalyzedToken[], label: string): Map<number, LeafHit> => {
+                const result = new Map<number, LeafHit>();
+                for (const [doc, occurrences] of SearchEngine.phraseOccurrences(shard, tokens)) {
+                    const score = tokens.reduce((sum, token) => sum + bm25(token.term, occurrences, doc), 0);
+                    result.set(doc, { score, matchDetails: [{ term: label, matchType: 'exact' }] });
+                }
+                return result;
+            };
+
+            // A term or phrase matches as written or as any of its synonyms;
+            // a chunk matching several ways keeps its best score
+            const leafHits = new Map<QueryNode, Map<number, LeafHit>>();
+            for (const leaf of textLeaves) {
+                const text = (leaf as { value: string }).value;
+                const tokens = queryTokens(text);
+                const terms = tokens.map(token => token.term);
+                const variants = [leaf.type === 'phrase' ? phrase(tokens, text.toLowerCase()) : allTerms(terms, true)];
+                for (const synonym of analyzer.synonyms(terms)) {
+                    variants.push(synonym.length === 1 ? allTerms(synonym, false) : phrase(queryTokens(synonym.join(' ')), synonym.join(' ')));
                 }
 
-                if (termFreq > 0) {
-                    // BM25 Score for this term
-                    const numerator = idf[term] * termFreq * (k1 + 1);
-                    const denominator = termFreq + k1 * (1 - b + b * (docLength / avgDocLength));
-                    score += numerator / denominator;
-
-                    matchDetails.push({ term, matchType });
+                const hits = new Map<number, LeafHit>();
+                for (const variant of variants) {
+                    for (const [doc, hit] of variant) {
+                        if ((hits.get(doc)?.score ?? -1) < hit.score) hits.set(doc, hit);
+                    }
                 }
+                leafHits.set(leaf, hits);
             }
 
-            // Boost for Title match
-            const titleLower = chunk.metadata.title?.toLowerCase() || '';
-            for (const term of queryTerms) {
-                if (titleLower.includes(term)) {
-                    score += 2.0; // Boost
+            const matchesField = (node: Extract<QueryNode, { type: 'field' }>, doc: number): boolean => {
+                const chunk = shard.chunks[doc];
+                const value = node.value;
+                switch (node.field) {
+                    case 'project':
+                        return SearchEngine.matchesPattern(shardId, value) || SearchEngine.matchesPattern(shardId.replace(/^[^:/]+:/, ''), value);
+                    case 'path':
+                        return /[*?]/.test(value)
+                            ? globToRegExp(value).test(chunk.filePath)
+                            : chunk.filePath === value || chunk.filePath.startsWith(`${value.replace(/\/$/, '')}/`);
+                    case 'type':
+                        return chunk.metadata.type === value.toLowerCase();
+                    case 'title':
+                        return queryTokens(value).every(token => shard.titlePostings.get(token.term)?.has(doc));
+                    case 'lang': {
+                        const extension = chunk.filePath.split('.').pop()?.toLowerCase() ?? '';
+                        const wanted = value.toLowerCase();
+                        return extension === wanted || LANGUAGES[extension] === (LANGUAGES[wanted] ?? wanted);
+                    }
+                    case 'tag':
+                        return !!chunk.metadata.tags?.some(tag => SearchEngine.matchesPattern(tag, value));
+                    case 'owner':
+                        return !!chunk.metadata.owner?.split(/\s*,\s*/).some(owner => SearchEngine.matchesPattern(owner, value));
+                    case 'status':
+                        return !!chunk.metadata.status && SearchEngine.matchesPattern(chunk.metadata.status, value);
                 }
-            }
+            };
+
+            // `textAsMatched` treats terms and phrases outside negations as
+            // matching, to apply only the filters and exclusions (semantic hits)
+            const matches = (node: QueryNode, doc: number, textAsMatched: boolean): boolean => {
+                switch (node.type) {
+                    case 'term':
+                    case 'phrase':
+                        return textAsMatched || leafHits.get(node)!.has(doc);
+                    case 'field':
+                        return matchesField(node, doc);
+                    case 'not':
+                        return !matches(node.child, doc, false);
+                    case 'and':
+                        return node.children.every(child => matches(child, doc, textAsMatched));
+                    case 'or':
+                        return node.children.some(child => matches(child, doc, textAsMatched));
+                }
+            };
+
+            const candidates = (): Iterable<number> => {
+                if (!textRequired) return shard.chunks.keys();
+                const docs = new Set<number>();
+                for (const leaf of positive) for (const doc of leafHits.get(leaf)!.keys()) docs.add(doc);
+                return docs;
+            };
+
+            const score = (doc: number): SearchResult => {
+                const result: SearchResult = { chunk: shard.chunks[doc], score: 0, matchDetails: [] };
+                for (const leaf of positive) {
+                    const hit = leafHits.get(leaf)!.get(doc);
+                    if (!hit) continue;
+                    result.score += hit.score;
+                    result.matchDetails.push(...hit.matchDetails);
+                }
+                return result;
+            };
 
-            // Boost for Project ID match
-            if (projectId && chunk.projectId === projectId) {
-                score *= 1.5;
+            return { shardId, shard, textRequired, candidates, matches: (doc, textAsMatched) => matches(ast, doc, textAsMatched), score };
+        });
+    }
+
+    /**
+     * Chunks containing the tokens at the same relative word positions as in
+     * the phrase (stop words in between are skipped on both sides), with the
+     * number of occurrences.
+     */
+    private static phraseOccurrences(shard: ProjectShard, tokens: AnalyzedToken[]): Map<number, number> {
+        const occurrences = new Map<number, number>();
+        if (tokens.length === 0) return occurrences;
+        const lists = tokens.map(token => new Map((shard.postings.get(token.term) ?? []).map(posting => [posting.doc, posting.positions])));
+        if (lists.some(list => list.size === 0)) return occurrences;
+
+        const offsets = tokens.map(token => token.position - tokens[0].position);
+        for (const [doc, starts] of lists[0]) {
+            if (!lists.every(list => list.has(doc))) continue;
+            const count = starts.filter(start => lists.every((list, i) => list.get(doc)!.includes(start + offsets[i]))).length;
+            if (count > 0) occurrences.set(doc, count);
+        }
+        return occurrences;
+    }
+
+    /**
+     * Exact (case-insensitive) match, or a glob when the pattern has wildcards.
+     */
+    private static matchesPattern(value: string, pattern: string): boolean {
+        return /[*?]/.test(pattern)
+            ? globToRegExp(pattern.toLowerCase()).test(value.toLowerCase())
+            : value.toLowerCase() === pattern.toLowerCase();
+    }
+
+    /**
+     * Chunks whose embedding is closest to the query's, best first. Every
+     * chunk is compared, so matches need not share a word with the query;
+     * field filters and exclusions of the query still apply.
+     */
+    private async semanticSearch(projectId: string | undefined, text: string, matchers: ShardMatcher[]): Promise<SearchResult[]> {
+        const model = this.embeddings!.model;
+        const [queryVector] = await this.embeddings!.embed([text]);
+
+        const results: SearchResult[] = [];
+        for (const { shardId, shard, matches } of matchers) {
+            const boost = projectId && shardId === projectId ? PROJECT_BOOST : 1;
+            shard.chunks.forEach((chunk, doc) => {
+                if (chunk.embedding?.model !== model) return;
+                let similarity = 0;
+                for (let i = 0; i < queryVector.length; i++) similarity += queryVector[i] * (chunk.embedding.vector[i] ?? 0);
+                // The similarity is cheaper than the filters, so it is checked first
+                if (similarity < MIN_SIMILARITY || !matches(doc, true)) return;
+                results.push({ chunk, score: similarity * boost, matchDetails: [{ term: text, matchType: 'semantic' }] });
+            });
+        }
+
+        return results.sort((a, b) => b.score - a.score).slice(0, RRF_DEPTH);
+    }
+
+    /**
+     * Reciprocal rank fusion: merges rankings by position rather than by
+     * score, since BM25 scores and similarities are on different scales.
+     */
+    private static fuse(rankings: SearchResult[][]): SearchResult[] {
+        const fused = new Map<string, SearchResult>();
+        for (const ranking of rankings) {
+            ranking.forEach((result, index) => {
+                const contribution = (RRF_K + 1) / (RRF_K + index + 1);
+                const existing = fused.get(result.chunk.id);
+                if (existing) {
+                    existing.score += contribution;
+                    existing.matchDetails.push(...result.matchDetails);
+                } else {
+                    fused.set(result.chunk.id, { chunk: result.chunk, score: contribution, matchDetails: [...result.matchDetails] });
+                }
+            });
+        }
+        return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Scores the chunks that satisfy the query with BM25 over the inverted
+     * index. Only chunks in the posting lists of the query's terms are
+     * visited, unless the query can match on metadata alone.
+     */
+    private keywordSearch(projectId: string | undefined, matchers: ShardMatcher[]): SearchResult[] {
+        const results: SearchResult[] = [];
+        for (const { shardId, textRequired, candidates, matches, score } of matchers) {
+            for (const doc of candidates()) {
+                if (!matches(doc, false)) continue;
+                const result = score(doc);
+                if (projectId && shardId === projectId) result.score *= PROJECT_BOOST;
+                // Chunks matched by filters alone are listed after scored ones
+                if (result.score > 0 || !textRequired) results.push(result);
             }
+        }
+
+        return results.sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Whether the index manifest was read (or there was none to read).
+     */
+    isLoaded(): boolean {
+        return this.loaded;
+    }
+
+    /**
+     * Number of indexed chunks per project.
+     */
+    getChunkCounts(): Map<string, number> {
+        return new Map([
+            ...Array.from(this.unloaded.entries()).map(([projectId, info]) => [projectId, info.chunks] as const),
+            ...Array.from(this.shards.entries()).map(([projectId, shard]) => [projectId, shard.chunks.length] as const),
+        ]);
+    }
+
+    /**
+     * Indexed projects, loaded or not, sorted by project ID.
+     */
+    listProjects(): IndexedProject[] {
+        const projects: IndexedProject[] = [
+            ...Array.from(this.unloaded, ([projectId, info]) => ({
+                projectId, chunks: info.chunks, files: info.files, updatedAt: info.updatedAt, ref: info.ref, commit: info.commit, loaded: false,
+            })),
+            ...Array.from(this.shards, ([projectId, shard]) => ({
+                projectId,
+                chunks: shard.chunks.length,
+                files: new Set(shard.chunks.map(chunk => chunk.filePath)).size,
+                updatedAt: shard.updatedAt,
+                ref: shard.source.ref,
+                commit: shard.source.commit,
+                loaded: true,
+            })),
+        ];
+        return projects.sort((a, b) => a.projectId.localeCompare(b.projectId));
+    }
+
+    /**
+     * The chunks of a project and where they were read from, for a re-crawl
+     * to reuse what has not changed. Undefined if the project is not indexed.
+     */
+    getProject(projectId: string): { chunks: DocumentChunk[]; source: ShardSource } | undefined {
+        this.loadShard(projectId);
+        const shard = this.shards.get(projectId);
+        return shard && { chunks: shard.chunks, source: shard.source };
+    }
 
-            return { chunk, score, matchDetails };
+    /**
+     * The indexed chunks of one file, in line order. Undefined if the
+     * project is not indexed.
+     */
+    getFileChunks(projectId: string, filePath: string): DocumentChunk[] | undefined {
+        this.loadShard(projectId);
+        const shard = this.shards.get(projectId);
+        if (!shard) return undefined;
+        return shard.chunks
+            .filter(chunk => chunk.filePath === filePath)
+            .sort((a, b) => (a.metadata.startLine ?? 0) - (b.metadata.startLine ?? 0));
+    }
+
+    /**
+     * Index-wide summary. Reads every project into memory.
+     *
+     * @param staleAfterMs Age of the last indexing beyond which a project is stale
+     * @param topTerms Number of most common terms to report
+     * @param projects Only summarize these projects (default all)
+     */
+    stats(staleAfterMs: number, topTerms: number = 20, projects?: string[]): IndexStats {
+        this.loadShards();
+        const included = (projectId: string) => !projects || projects.includes(projectId);
+
+        const documentFrequencies = new Map<string, number>();
+        const forms = new Map<string, string>();
+        const sizes: number[] = [];
+        let files = 0;
+        let projectCount = 0;
+        for (const [projectId, shard] of this.shards) {
+            if (!included(projectId)) continue;
+            projectCount++;
+            for (const [term, postings] of shard.postings) documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + postings.length);
+            for (const [term, form] of shard.forms) if (!forms.has(term)) forms.set(term, form);
+            for (const chunk of shard.chunks) sizes.push(chunk.content.length);
+            files += new Set(shard.chunks.map(chunk => chunk.filePath)).size;
+        }
+        sizes.sort((a, b) => a - b);
+
+        const chunkSizes = CHUNK_SIZE_BOUNDS.map((bound, i) => {
+            const lower = i === 0 ? 0 : CHUNK_SIZE_BOUNDS[i - 1];
+            return {
+                label: bound === Infinity ? `${lower}+ chars` : `${lower}-${bound - 1} chars`,
+                chunks: sizes.filter(size => size >= lower && size < bound).length,
+            };
         });
 
-        return scoredChunks
-            .filter(item => item.score > 0)
-            .sort((a, b) => b.score - a.score)
-            .slice(0, limit);
+        const now = Date.now();
+        const staleProjects = this.listProjects()
+            .filter(project => included(project.projectId) && now - Date.parse(project.updatedAt) > staleAfterMs)
+            .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+
+        return {
+            projects: projectCount,
+            files,
+            chunks: sizes.length,
+            terms: documentFrequencies.size,
+            topTerms: Array.from(documentFrequencies)
+                .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+                .slice(0, topTerms)
+                .map(([term, chunks]) => ({ term: forms.get(term) ?? term, chunks })),
+            chunkSizes,
+            medianChunkChars: sizes[Math.floor(sizes.length / 2)] ?? 0,
+            maxChunkChars: sizes[sizes.length - 1] ?? 0,
+            staleProjects,
+        };
     }
 
     /**
-     * Clears the index for a project.
+     * Clears the index for a project. False if it was not indexed.
      */
-    clearIndex(projectId: string) {
-        this.index.delete(projectId);
-        this.saveIndex();
+    clearIndex(projectId: string): boolean {
+        const indexed = this.shards.has(projectId) || this.unloaded.has(projectId);
+        this.shards.delete(projectId);
+        this.unloaded.delete(projectId);
+        this.persistedStats.delete(projectId);
+        this.corpus = undefined;
+        try {
+            this.store?.removeShard(projectId);
+        } catch (error) {
+            console.error(`Failed to remove search index for project ${projectId}:`, error);
+        }
+        return indexed;
     }
 }
 
 // Export a singleton instance
-export const searchEngine = new SearchEngine();
+export const searchEngine = new SearchEngine(new IndexStore(config.SEARCH_INDEX_DIR, {
+    compress: config.SEARCH_INDEX_COMPRESS,
+    legacyFile: path.join(process.cwd(), '.gitlab_index.json'),
+}), createEmbeddingProvider());
+
+registry.register(new Gauge('pm7_search_index_chunks', 'Indexed chunks by project', () =>
+    Array.from(searchEngine.getChunkCounts()).map(([project, value]) => ({ labels: { project }, value }))
+));
+registry.register(new Gauge('pm7_search_index_projects', 'Indexed projects', () => [{ value: searchEngine.getChunkCounts().size }]));
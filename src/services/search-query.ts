@@ -0,0 +1,267 @@
+/**
+ * Query syntax of `search-gitlab-context`:
+ *
+ *   device enrollment        both words (fuzzy, ranked by BM25)
+ *   "device enrollment"      the exact phrase
+ *   -legacy                  without the word (or -"phrase", -field:value)
+ *   android OR ios           either side; binds tighter than the implicit AND
+ *   (android OR ios) setup   parentheses group clauses
+ *   project:group/*          project path glob
+ *   path:docs/**             file path glob, or a directory without wildcards
+ *   type:markdown            chunk type (markdown, code, text, openapi, config, csv, notebook)
+ *   title:"getting started"  section title contains the words
+ *   lang:python              file language or extension
+ *   tag:security             markdown front matter tag (glob)
+ *   owner:alice              markdown front matter owner (glob)
+ *   status:draft             markdown front matter status (glob)
+ */
+
+export type QueryField = 'project' | 'path' | 'type' | 'title' | 'lang' | 'tag' | 'owner' | 'status';
+
+export const QUERY_FIELDS: QueryField[] = ['project', 'path', 'type', 'title', 'lang', 'tag', 'owner', 'status'];
+
+export type QueryNode =
+    | { type: 'term'; value: string }
+    | { type: 'phrase'; value: string }
+    | { type: 'field'; field: QueryField; value: string }
+    | { type: 'not'; child: QueryNode }
+    | { type: 'and'; children: QueryNode[] }
+    | { type: 'or'; children: QueryNode[] };
+
+export class QuerySyntaxError extends Error {
+    constructor(reason: string, query: string, position: number) {
+        super(`Invalid search query: ${reason} at column ${position + 1}\n  ${query}\n  ${' '.repeat(position)}^`);
+        this.name = 'QuerySyntaxError';
+    }
+}
+
+type Token =
+    | { kind: 'word' | 'phrase'; value: string; position: number; negated: boolean; field?: QueryField }
+    | { kind: 'or' | 'open' | 'close'; position: number; negated: boolean };
+
+class Lexer {
+    private position = 0;
+
+    constructor(private query: string) {}
+
+    tokens(): Token[] {
+        const tokens: Token[] = [];
+        while (true) {
+            while (/\s/.test(this.query[this.position] ?? '')) this.position++;
+            if (this.position >= this.query.length) return tokens;
+            tokens.push(this.next());
+        }
+    }
+
+    private next(): Token {
+        const start = this.position;
+        const negated = this.query[this.position] === '-' && /[^\s-]/.test(this.query[this.position + 1] ?? ' ');
+        if (negated) this.position++;
+
+        const char = this.query[this.position];
+        if (char === '(') {
+            this.position++;
+            return { kind: 'open', position: start, negated };
+        }
+        if (char === ')') {
+            if (negated) this.fail('"-" cannot precede ")"', start);
+            this.position++;
+            return { kind: 'close', position: start, negated };
+        }
+        if (char === '"') {
+            return { kind: 'phrase', value: this.quoted(), position: start, negated };
+        }
+
+        const word = this.word();
+        if (word === 'OR' && !negated) return { kind: 'or', position: start, negated };
+
+        const colon = word.indexOf(':');
+        const field = colon > 0 ? word.slice(0, colon).toLowerCase() as QueryField : undefined;
+        if (!field || !QUERY_FIELDS.includes(field)) {
+            // Not a known field, e.g. a URL or "Note:"; searched as text
+            return { kind: 'word', value: word, position: start, negated };
+        }
+
+        let value = word.slice(colon + 1);
+        if (value === '' && this.query[this.position] === '"') {
+            value = this.quoted();
+        }
+        if (value.trim() === '') {
+            this.fail(`missing value for ${field}: (one of ${QUERY_FIELDS.map(name => `${name}:`).join(', ')})`, start);
+        }
+        return { kind: 'word', value, position: start, negated, field };
+    }
+
+    private word(): string {
+        const start = this.position;
+        while (this.position < this.query.length && !/[\s()"]/.test(this.query[this.position])) this.position++;
+        return this.query.slice(start, this.position);
+    }
+
+    private quoted(): string {
+        const start = this.position;
+        const end = this.query.indexOf('"', start + 1);
+        if (end === -1) this.fail('missing closing quote', start);
+        this.position = end + 1;
+        const value = this.query.slice(start + 1, end);
+        if (value.trim() === '') this.fail('empty phrase', start);
+        return value;
+    }
+
+    private fail(reason: string, position: number): never {
+        throw new QuerySyntaxError(reason, this.query, position);
+    }
+}
+
+/**
+ * Recursive descent over the tokens:
+ *
+ *   query  := and
+ *   and    := or+             (implicit AND)
+ *   or     := unary ("OR" unary)*
+ *   unary  := ["-"] (word | phrase | field | "(" and ")")
+ */
+class Parser {
+    private index = 0;
+
+    constructor(private query: string, private tokens: Token[]) {}
+
+    parse(): QueryNode {
+        if (this.tokens.length === 0) this.fail('empty query', 0);
+        const node = this.and();
+        const extra = this.tokens[this.index];
+        if (extra) this.fail('unmatched ")"', extra.position);
+        return node;
+    }
+
+    private and(): QueryNode {
+        const children: QueryNode[] = [];
+        while (this.index < this.tokens.length && this.tokens[this.index].kind !== 'close') {
+            children.push(this.or());
+        }
+        return children.length === 1 ? children[0] : { type: 'and', children };
+    }
+
+    private or(): QueryNode {
+        const children = [this.unary()];
+        while (this.tokens[this.index]?.kind === 'or') {
+            const or = this.tokens[this.index++];
+            if (this.index >= this.tokens.length || this.tokens[this.index].kind === 'close' || this.tokens[this.index].kind === 'or') {
+                this.fail('OR needs a term on both sides', or.position);
+            }
+            children.push(this.unary());
+        }
+        return children.length === 1 ? children[0] : { type: 'or', children };
+    }
+
+    private unary(): QueryNode {
+        const token = this.tokens[this.index++];
+        let node: QueryNode;
+
+        switch (token.kind) {
+            case 'or':
+                this.fail('OR needs a term on both sides', token.position);
+            case 'close':
+                this.fail('unmatched ")"', token.position);
+            case 'open': {
+                if (this.index >= this.tokens.length || this.tokens[this.index].kind === 'close') this.fail('empty group', token.position);
+                node = this.and();
+                if (this.tokens[this.index]?.kind !== 'close') this.fail('missing closing ")"', token.position);
+                this.index++;
+                break;
+            }
+            case 'phrase':
+                node = token.field ? { type: 'field', field: token.field, value: token.value } : { type: 'phrase', value: token.value };
+                break;
+            case 'word':
+                node = token.field ? { type: 'field', field: token.field, value: token.value } : { type: 'term', value: token.value };
+                break;
+        }
+
+        return token.negated ? { type: 'not', child: node } : node;
+    }
+
+    private fail(reason: string, position: number): never {
+        throw new QuerySyntaxError(reason, this.query, position);
+    }
+}
+
+/**
+ * Parses a search query into an AST. Throws a QuerySyntaxError pointing at
+ * the offending column.
+ */
+export function parseQuery(query: string): QueryNode {
+    const node = new Parser(query, new Lexer(query).tokens()).parse();
+    if (!hasPositiveText(node) && !hasFilter(node)) {
+        throw new QuerySyntaxError('the query only excludes; add a search term or a field filter', query, 0);
+    }
+    return node;
+}
+
+/**
+ * Term and phrase leaves that a matching chunk may contain (not under a negation).
+ */
+export function positiveText(node: QueryNode): QueryNode[] {
+    switch (node.type) {
+        case 'term':
+        case 'phrase':
+            return [node];
+        case 'and':
+        case 'or':
+            return node.children.flatMap(positiveText);
+        default:
+            return [];
+    }
+}
+
+function hasPositiveText(node: QueryNode): boolean {
+    return positiveText(node).length > 0;
+}
+
+function hasFilter(node: QueryNode): boolean {
+    switch (node.type) {
+        case 'field':
+            return true;
+        case 'and':
+        case 'or':
+            return node.children.some(hasFilter);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Whether every match must contain some term or phrase. When false (e.g.
+ * `docs OR type:code`), chunks can match on metadata alone.
+ */
+export function requiresText(node: QueryNode): boolean {
+    switch (node.type) {
+        case 'term':
+        case 'phrase':
+            return true;
+        case 'and':
+            return node.children.some(requiresText);
+        case 'or':
+            return node.children.every(requiresText);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Whether some chunk of a set may match, given whether each term, phrase
+ * and field can match in it at all. Negations are assumed to hold, since
+ * the chunks they exclude are not known.
+ */
+export function mayMatch(node: QueryNode, leafMayMatch: (leaf: Exclude<QueryNode, { type: 'not' | 'and' | 'or' }>) => boolean): boolean {
+    switch (node.type) {
+        case 'not':
+            return true;
+        case 'and':
+            return node.children.every(child => mayMatch(child, leafMayMatch));
+        case 'or':
+            return node.children.some(child => mayMatch(child, leafMayMatch));
+        default:
+            return leafMayMatch(node);
+    }
+}
@@ -0,0 +1,132 @@
+import { randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryEventStore } from '../utils/event-store.js';
+import { userIdOf } from './credentials.js';
+import { Gauge, registry } from '../utils/metrics.js';
+
+export interface SessionManagerOptions {
+    idleTimeoutMs: number; // 0 disables expiry
+    eventHistory: number; // Events kept for resumption, 0 disables it
+}
+
+interface Session {
+    server: McpServer;
+    transport: StreamableHTTPServerTransport;
+    userId?: string; // Authenticated user who started the session
+    lastActivity: number;
+    openRequests: number; // Includes open GET (SSE) streams, which keep a session alive
+}
+
+/**
+ * Owns the stateful Streamable HTTP sessions: one MCP server and transport
+ * per client, created on initialize and removed on DELETE, close or idle expiry.
+ */
+export class SessionManager {
+    private sessions: Map<string, Session> = new Map();
+    private sweeper?: NodeJS.Timeout;
+
+    constructor(private createServer: () => McpServer, private options: SessionManagerOptions) {
+        registry.register(new Gauge('pm7_mcp_sessions', 'Active MCP HTTP sessions', () => [{ value: this.sessions.size }]));
+        if (options.idleTimeoutMs > 0) {
+            this.sweeper = setInterval(() => this.expireIdle(), Math.min(options.idleTimeoutMs, 60 * 1000));
+            this.sweeper.unref();
+        }
+    }
+
+    /**
+     * POST /mcp: starts a session on initialize, otherwise routes to the session's transport.
+     */
+    async handlePost(req: Request, res: Response) {
+        const sessionId = req.header('mcp-session-id');
+        if (sessionId) {
+            return this.forward(sessionId, req, res, req.body);
+        }
+
+        if (!isInitializeRequest(req.body)) {
+            return SessionManager.sendError(res, 400, 'Bad Request: No valid session ID provided. Send an initialize request first.');
+        }
+
+        const server = this.createServer();
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            eventStore: this.options.eventHistory > 0 ? new InMemoryEventStore(this.options.eventHistory) : undefined,
+            onsessioninitialized: (id) => {
+                this.sessions.set(id, { server, transport, userId: userIdOf(req.auth), lastActivity: Date.now(), openRequests: 0 });
+                console.error(`MCP session ${id} started (${this.sessions.size} active)`);
+            },
+        });
+
+        // Runs for DELETE, server.close() and expiry alike
+        transport.onclose = () => {
+            const id = transport.sessionId;
+            if (id && this.sessions.delete(id)) {
+                console.error(`MCP session ${id} closed (${this.sessions.size} active)`);
+            }
+        };
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, req.body);
+    }
+
+    /**
+     * GET /mcp opens the session's SSE stream (resuming with Last-Event-ID), DELETE /mcp ends the session.
+     */
+    async handleSessionRequest(req: Request, res: Response) {
+        const sessionId = req.header('mcp-session-id');
+        if (!sessionId) {
+            return SessionManager.sendError(res, 400, 'Bad Request: Missing Mcp-Session-Id header.');
+        }
+        return this.forward(sessionId, req, res);
+    }
+
+    get size(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Closes every session, e.g. on shutdown.
+     */
+    async closeAll() {
+        if (this.sweeper) clearInterval(this.sweeper);
+        await Promise.all(Array.from(this.sessions.values()).map(session => session.server.close()));
+    }
+
+    private async forward(sessionId: string, req: Request, res: Response, body?: unknown) {
+        const session = this.sessions.get(sessionId);
+        // Other users' sessions are reported as unknown rather than forbidden
+        if (!session || session.userId !== userIdOf(req.auth)) {
+            // 404 tells the client to start over with a new initialize request
+            return SessionManager.sendError(res, 404, 'Session not found. It may have expired; start a new session.');
+        }
+
+        session.openRequests++;
+        session.lastActivity = Date.now();
+        res.on('close', () => {
+            session.openRequests--;
+            session.lastActivity = Date.now();
+        });
+
+        await session.transport.handleRequest(req, res, body);
+    }
+
+    private expireIdle() {
+        const cutoff = Date.now() - this.options.idleTimeoutMs;
+        for (const [id, session] of this.sessions) {
+            if (session.openRequests === 0 && session.lastActivity < cutoff) {
+                console.error(`MCP session ${id} expired after ${this.options.idleTimeoutMs} ms idle`);
+                session.server.close().catch(error => console.error(`Failed to close MCP session ${id}:`, error));
+            }
+        }
+    }
+
+    private static sendError(res: Response, status: number, message: string) {
+        res.status(status).json({
+            jsonrpc: '2.0',
+            error: { code: -32000, message },
+            id: null,
+        });
+    }
+}
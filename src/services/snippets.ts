@@ -0,0 +1,92 @@
+import { DocumentChunk } from './document-processor.js';
+import { analyzerFor } from './analyzer.js';
+import type { SearchResult } from './search-engine.js';
+
+const SNIPPET_LINES = 4;
+// Expanded context is cut beyond this, to keep tool results readable
+const MAX_CONTEXT_CHARS = 20000;
+
+/**
+ * Leading lines of a chunk that are context outside its line range, such
+ * as the header line repeated in every CSV chunk.
+ */
+function prefixLines(chunk: DocumentChunk, lineCount: number): number {
+    const { startLine, endLine } = chunk.metadata;
+    return startLine !== undefined && endLine !== undefined ? Math.max(0, lineCount - (endLine - startLine + 1)) : 0;
+}
+
+export interface Snippet {
+    text: string; // With matched words in **bold**
+    startLine?: number;
+    endLine?: number;
+}
+
+/**
+ * The window of lines with the most matched words, with those words
+ * highlighted. A word matches when it analyzes to a matched term, so
+ * "policies" is highlighted for "policy" and "HTTPServer" for "server".
+ */
+export function buildSnippet(result: SearchResult, windowLines: number = SNIPPET_LINES): Snippet {
+    const { chunk } = result;
+    const analyzer = analyzerFor(chunk.projectId);
+    const terms = new Set(result.matchDetails.flatMap(detail => analyzer.terms(detail.term, { mode: 'query', kind: 'prose' })));
+    const isMatch = (word: string) => analyzer.terms(word, { mode: 'index', kind: 'prose' }).some(term => terms.has(term));
+
+    const lines = chunk.content.split('\n');
+    const counts = lines.map(line => (line.match(/[\p{L}\p{N}]+/gu) ?? []).filter(isMatch).length);
+
+    // Sliding window sum; the first densest window wins
+    let best = 0;
+    let bestCount = -1;
+    let count = 0;
+    for (let i = 0; i < lines.length; i++) {
+        count += counts[i] - (i >= windowLines ? counts[i - windowLines] : 0);
+        const start = Math.max(0, i - windowLines + 1);
+        if (count > bestCount) {
+            bestCount = count;
+            best = start;
+        }
+    }
+
+    const window = lines.slice(best, best + windowLines);
+    const text = window
+        .map(line => line.replace(/[\p{L}\p{N}]+/gu, word => isMatch(word) ? `**${word}**` : word))
+        .join('\n');
+    // A window in the prefix is reported from the first line of the range
+    const offset = best - prefixLines(chunk, lines.length);
+    const startLine = chunk.metadata.startLine !== undefined ? chunk.metadata.startLine + Math.max(0, offset) : undefined;
+    const endLine = startLine !== undefined ? Math.max(startLine, chunk.metadata.startLine! + offset + window.length - 1) : undefined;
+    return { text, startLine, endLine };
+}
+
+/**
+ * Joins chunks of one file into continuous text. Overlapping line ranges
+ * (code windows overlap) are included once, and so is context repeated in
+ * every chunk (e.g. a CSV header).
+ */
+export function joinChunks(chunks: DocumentChunk[]): string {
+    const sorted = [...chunks].sort((a, b) => (a.metadata.startLine ?? 0) - (b.metadata.startLine ?? 0));
+    const parts: string[] = [];
+    let lastLine = 0;
+
+    for (const chunk of sorted) {
+        let lines = chunk.content.split('\n');
+        const start = chunk.metadata.startLine;
+        if (start === undefined) {
+            parts.push(chunk.content);
+            continue;
+        }
+        const prefix = prefixLines(chunk, lines.length);
+        if (prefix > 0 && parts.length === 0) parts.push(lines.slice(0, prefix).join('\n'));
+        lines = lines.slice(prefix);
+        const skip = Math.max(0, lastLine - start + 1);
+        if (lastLine > 0 && start > lastLine + 1) parts.push(`... (lines ${lastLine + 1}-${start - 1} not indexed)`);
+        if (skip < lines.length) parts.push(lines.slice(skip).join('\n'));
+        lastLine = Math.max(lastLine, start + lines.length - 1);
+    }
+
+    const text = parts.join('\n');
+    return text.length > MAX_CONTEXT_CHARS
+        ? `${text.slice(0, MAX_CONTEXT_CHARS)}\n... (truncated, ${text.length - MAX_CONTEXT_CHARS} more characters)`
+        : text;
+}
@@ -0,0 +1,165 @@
+/**
+ * Locates the members of YAML and JSON documents and the records of CSV
+ * files by line, so that they can be chunked without losing line numbers.
+ * Values are not interpreted here; documents are validated and read with
+ * js-yaml and JSON.parse.
+ */
+
+export interface StructureNode {
+    key: string; // Object key, or "[index]" for a list item
+    start: number; // 0-based lines, inclusive
+    end: number;
+    children(): StructureNode[];
+}
+
+/**
+ * Members of the root object (or items of the root array) of a JSON text.
+ */
+export function jsonStructure(content: string): StructureNode[] {
+    let i = 0;
+    let line = 0;
+
+    const skipWhitespace = () => {
+        while (i < content.length && /\s/.test(content[i])) {
+            if (content[i] === '\n') line++;
+            i++;
+        }
+    };
+
+    const readString = (): string => {
+        const start = i;
+        for (i++; i < content.length && content[i] !== '"'; i++) {
+            if (content[i] === '\\') i++;
+        }
+        i++;
+        return JSON.parse(content.slice(start, i));
+    };
+
+    // Reads a value and returns its members; the line is left on its last character
+    const readValue = (): StructureNode[] => {
+        skipWhitespace();
+        const open = content[i];
+        if (open !== '{' && open !== '[') {
+            if (open === '"') readString();
+            else while (i < content.length && !/[\s,}\]]/.test(content[i])) i++;
+            return [];
+        }
+
+        const members: StructureNode[] = [];
+        const close = open === '{' ? '}' : ']';
+        i++;
+        while (true) {
+            skipWhitespace();
+            if (i >= content.length || content[i] === close) break;
+            const start = line;
+            let key = `[${members.length}]`;
+            if (open === '{') {
+                key = readString();
+                skipWhitespace();
+                i++; // ':'
+            }
+            const children = readValue();
+            members.push({ key, start, end: line, children: () => children });
+            skipWhitespace();
+            if (content[i] === ',') i++;
+        }
+        i++;
+        return members;
+    };
+
+    return readValue();
+}
+
+// A mapping key ("name:", "'quoted key':") or a list item ("- ") and its indentation
+const YAML_MEMBER = /^(\s*)(?:(-)(?:\s|$)|("[^"]*"|'[^']*'|[^\s#'"\-][^#]*?|-[^\s#][^#]*?)\s*:(?:\s|$))/;
+const YAML_IGNORED = /^\s*(#.*)?$|^(---|\.\.\.)\s*$/;
+// "key: |" and "key: >-" start block scalars, whose lines may look like keys
+const YAML_BLOCK_SCALAR = /:\s*[|>][-+0-9]*\s*(#.*)?$/;
+
+/**
+ * Top-level members of a YAML text, or of the lines `start` to `end` of it
+ * (0-based, inclusive). Comment lines directly above a member belong to it.
+ * Flow collections (`{...}`, `[...]`) are not split.
+ */
+export function yamlStructure(lines: string[], start: number = 0, end: number = lines.length - 1): StructureNode[] {
+    return yamlMembers(i => lines[i], start, end);
+}
+
+// "---" starts a document (possibly followed by content), "..." ends one
+const YAML_DOCUMENT_MARKER = /^(---(\s.*)?|\.\.\.\s*)$/;
+
+/**
+ * Line ranges (0-based, inclusive) of the documents of a YAML stream,
+ * without the `---` and `...` markers. Ranges may hold only comments or
+ * directives.
+ */
+export function yamlDocuments(lines: string[]): [number, number][] {
+    const documents: [number, number][] = [];
+    let start = 0;
+    lines.forEach((line, i) => {
+        if (!YAML_DOCUMENT_MARKER.test(line)) return;
+        if (i > start) documents.push([start, i - 1]);
+        start = i + 1;
+    });
+    if (start < lines.length) documents.push([start, lines.length - 1]);
+    return documents;
+}
+
+function yamlMembers(lineAt: (i: number) => string, start: number, end: number): StructureNode[] {
+    const candidates: { line: number; indent: number; key?: string }[] = [];
+    for (let i = start; i <= end; i++) {
+        const text = lineAt(i);
+        if (YAML_IGNORED.test(text)) continue;
+        const match = text.match(YAML_MEMBER);
+        if (match) candidates.push({ line: i, indent: match[1].length, key: match[2] ? undefined : match[3].replace(/^(["'])(.*)\1$/, '$2') });
+    }
+    if (candidates.length === 0) return [];
+
+    // Members are the shallowest keys or items; deeper ones belong to them
+    const indent = Math.min(...candidates.map(candidate => candidate.indent));
+    const members = candidates.filter(candidate => candidate.indent === indent);
+    let items = 0;
+
+    return members.map((member, index) => {
+        let last = index + 1 < members.length ? members[index + 1].line - 1 : end;
+        while (last > member.line && YAML_IGNORED.test(lineAt(last))) last--;
+        let first = member.line;
+        while (first > start && /^\s*#/.test(lineAt(first - 1))) first--;
+
+        const key = member.key ?? `[${items++}]`;
+        const children = () => {
+            if (member.key !== undefined) {
+                return YAML_BLOCK_SCALAR.test(lineAt(member.line)) ? [] : yamlMembers(lineAt, member.line + 1, last);
+            }
+            // An item's mapping starts on the dash line: "- name: x"
+            const itemLine = lineAt(member.line).replace(/^(\s*)-/, '$1 ');
+            return yamlMembers(i => i === member.line ? itemLine : lineAt(i), member.line, last);
+        };
+        return { key, start: first, end: last, children };
+    });
+}
+
+/**
+ * Line ranges (0-based, inclusive) of the records of a CSV text. Quoted
+ * fields may span lines.
+ */
+export function csvRecords(content: string): [number, number][] {
+    const records: [number, number][] = [];
+    let line = 0;
+    let start = 0;
+    let quoted = false;
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '"') {
+            // An escaped quote ("") toggles twice
+            quoted = !quoted;
+        } else if (content[i] === '\n') {
+            if (!quoted) {
+                records.push([start, line]);
+                start = line + 1;
+            }
+            line++;
+        }
+    }
+    if (content.length > 0 && !content.endsWith('\n')) records.push([start, line]);
+    return records;
+}
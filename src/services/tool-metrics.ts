@@ -0,0 +1,25 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { metrics } from '../utils/metrics.js';
+
+/**
+ * Wraps `server.registerTool` so that every tool registered afterwards
+ * records its call count, outcome and latency. Apply it before the tool
+ * policy so that refused calls are counted as errors too.
+ */
+export function instrumentTools(server: McpServer) {
+    const registerTool = server.registerTool.bind(server) as (...args: any[]) => any;
+
+    (server as any).registerTool = (name: string, toolConfig: any, callback: (...args: any[]) => any) =>
+        registerTool(name, toolConfig, async (...args: any[]) => {
+            const stopTimer = metrics.toolDuration.startTimer({ tool: name });
+            let outcome = 'error';
+            try {
+                const result = await callback(...args);
+                if (!result?.isError) outcome = 'success';
+                return result;
+            } finally {
+                stopTimer();
+                metrics.toolCalls.inc({ tool: name, outcome });
+            }
+        });
+}
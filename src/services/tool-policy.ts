@@ -0,0 +1,88 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { ToolPolicy } from '../config.js';
+import { matchesAny } from '../utils/glob.js';
+
+// Arguments that name the project a tool call acts on
+const PROJECT_ARGS = ['projectKey', 'projectId', 'project'];
+
+// Tools that change only PM7's own state (search index, API cache), never
+// upstream data. They are not annotated as read-only, so clients ask before
+// calling them, but read-only mode (which guards upstream writes) keeps them.
+export const LOCAL_STATE_TOOLS = ['crawl-gitlab', 'rebuild-search-index', 'clear-search-index', 'manage-api-cache'];
+
+// Tools whose denial was already logged; servers are created per HTTP session
+const reportedDenials = new Set<string>();
+
+/**
+ * Reason a tool is disabled outright, or undefined when it may be registered.
+ */
+export function toolDenial(name: string, annotations: ToolAnnotations | undefined, policy: ToolPolicy): string | undefined {
+    if (matchesAny(name, policy.deny)) return 'it is on the deny list';
+    if (!matchesAny(name, policy.allow)) return 'it is not on the allow list';
+    if (policy.readOnly && annotations?.readOnlyHint !== true && !LOCAL_STATE_TOOLS.includes(name)) return 'the server is in read-only mode';
+    return undefined;
+}
+
+/**
+ * Reason a specific call is refused by a per-project rule, if any.
+ */
+export function projectDenial(name: string, args: Record<string, unknown> | undefined, policy: ToolPolicy): string | undefined {
+    const rules = policy.projects.filter(rule => matchesAny(name, rule.tools));
+    if (rules.length === 0) return undefined;
+
+    const argName = PROJECT_ARGS.find(key => typeof args?.[key] === 'string');
+    if (!argName) return 'it is restricted to specific projects and no project was given';
+
+    // Jira keys and GitLab paths are case-insensitive
+    const project = String(args![argName]).toLowerCase();
+    for (const rule of rules) {
+        if (!matchesAny(project, rule.allowed.map(allowed => allowed.toLowerCase()))) {
+            return `project "${args![argName]}" is not allowed (allowed: ${rule.allowed.join(', ')})`;
+        }
+    }
+    return undefined;
+}
+
+function policyError(name: string, reason: string): CallToolResult {
+    console.error(`[policy] Denied call to ${name}: ${reason}`);
+    return {
+        content: [{ type: 'text' as const, text: `Policy error: ${name} is not permitted because ${reason}. Ask the server administrator if you need access.` }],
+        isError: true,
+    };
+}
+
+/**
+ * Wraps `server.registerTool` so that every tool registered afterwards is
+ * subject to the policy: denied tools stay visible but refuse every call,
+ * project-restricted tools check their project argument on each call.
+ */
+export function applyToolPolicy(server: McpServer, policy: ToolPolicy) {
+    const registerTool = server.registerTool.bind(server) as (...args: any[]) => any;
+
+    (server as any).registerTool = (name: string, toolConfig: any, callback: (...args: any[]) => any) => {
+        const denial = toolDenial(name, toolConfig.annotations, policy);
+        if (denial) {
+            if (!reportedDenials.has(name)) {
+                reportedDenials.add(name);
+                console.error(`[policy] Tool ${name} is disabled because ${denial}`);
+            }
+            return registerTool(name, {
+                ...toolConfig,
+                description: `[Disabled by server policy] ${toolConfig.description ?? ''}`,
+            }, async () => policyError(name, denial));
+        }
+
+        if (!policy.projects.some(rule => matchesAny(name, rule.tools))) {
+            return registerTool(name, toolConfig, callback);
+        }
+
+        return registerTool(name, toolConfig, async (...args: any[]) => {
+            // Tools without an input schema receive only the request context
+            const params = toolConfig.inputSchema ? args[0] : undefined;
+            const reason = projectDenial(name, params, policy);
+            if (reason) return policyError(name, reason);
+            return callback(...args);
+        });
+    };
+}
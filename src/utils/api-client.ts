@@ -1,83 +1,405 @@
+import { config } from '../config.js';
+import { rateLimiter, RateLimiter, sleep } from './rate-limiter.js';
+import { ApiError, createApiError, Provider } from './errors.js';
+import { CacheRule, httpCache, HttpCache } from './http-cache.js';
+import { fixtureStore } from './fixture-store.js';
+import { metrics } from './metrics.js';
+import { createHash } from 'crypto';
+
+// Statuses worth retrying: throttling and transient gateway failures
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+export type PaginationStyle = 'gitlab' | 'jira' | 'figma';
+
+const DEFAULT_PAGE_SIZES: Record<PaginationStyle, number> = {
+    gitlab: 100,
+    jira: 50,
+    figma: 100,
+};
+
+export interface ApiClientOptions {
+    maxRetries?: number;
+    retryBaseDelayMs?: number;
+    retryMaxDelayMs?: number;
+    pagination?: PaginationStyle;
+    provider?: Provider; // Used to tag errors raised by this client
+    cache?: CacheRule[]; // Per-endpoint TTLs for GET responses, first match wins (requires API_CACHE_ENABLED)
+}
+
+export interface Page<T> {
+    items: T[];
+    cursor?: string; // Provider cursor that produced this page
+    nextCursor?: string; // Provider cursor for the following page, if any
+    total?: number; // Total item count, when the provider reports it
+}
+
+export interface PaginateOptions {
+    itemsKey?: string; // Dotted path to the items when the response is an object (e.g. 'issues', 'meta.components')
+    pageSize?: number;
+    startCursor?: string;
+}
+
+export interface CollectOptions extends PaginateOptions {
+    maxItems?: number;
+    cursor?: string; // Opaque continuation cursor returned by a previous collect()
+}
+
+export interface CollectResult<T> {
+    items: T[];
+    nextCursor?: string; // Opaque, pass back as `cursor` to continue
+    total?: number;
+}
+
+interface CursorState {
+    page?: string;
+    offset: number;
+    pageSize: number;
+}
+
 export class ApiClient {
     private baseUrl: string;
     private headers: Record<string, string>;
+    private host: string;
+    private maxRetries: number;
+    private retryBaseDelayMs: number;
+    private retryMaxDelayMs: number;
+    private pagination: PaginationStyle;
+    private provider?: Provider;
+    private cacheRules: CacheRule[];
+    private cacheNamespace: string;
 
-    constructor(baseUrl: string, headers: Record<string, string> = {}) {
+    constructor(baseUrl: string, headers: Record<string, string> = {}, options: ApiClientOptions = {}) {
         this.baseUrl = baseUrl.replace(/\/$/, '');
         this.headers = headers;
+        this.host = new URL(this.baseUrl).host;
+        this.maxRetries = options.maxRetries ?? config.API_MAX_RETRIES;
+        this.retryBaseDelayMs = options.retryBaseDelayMs ?? config.API_RETRY_BASE_DELAY_MS;
+        this.retryMaxDelayMs = options.retryMaxDelayMs ?? config.API_RETRY_MAX_DELAY_MS;
+        this.pagination = options.pagination ?? 'gitlab';
+        this.provider = options.provider;
+        // Conditional requests would make recorded fixtures depend on cache state
+        this.cacheRules = config.API_CACHE_ENABLED && config.API_MODE === 'live' ? options.cache ?? [] : [];
+        // Responses depend on who is asking, so cache keys are scoped by credentials
+        this.cacheNamespace = createHash('sha256').update(JSON.stringify(headers)).digest('hex').slice(0, 16);
     }
 
     async get<T>(path: string, params?: Record<string, string>): Promise<T> {
-        const url = new URL(`${this.baseUrl}${path}`);
-        if (params) {
-            Object.entries(params).forEach(([key, value]) => {
-                if (value) url.searchParams.append(key, value);
-            });
+        const response = await this.request('GET', this.buildUrl(path, params));
+        return response.json() as Promise<T>;
+    }
+
+    async getText(path: string, params?: Record<string, string>): Promise<string> {
+        const response = await this.request('GET', this.buildUrl(path, params));
+        return response.text();
+    }
+
+    async post<T>(path: string, body: any): Promise<T> {
+        const response = await this.request('POST', this.buildUrl(path), body);
+        return response.json() as Promise<T>;
+    }
+
+    async put<T>(path: string, body: any): Promise<T> {
+        const response = await this.request('PUT', this.buildUrl(path), body);
+        return response.json() as Promise<T>;
+    }
+
+    /**
+     * Iterates over every page of a list endpoint, following the provider's
+     * pagination scheme (GitLab `X-Next-Page`/`Link`, Jira `startAt`/`nextPageToken`,
+     * Figma cursors).
+     */
+    async *paginate<T>(path: string, params: Record<string, string> = {}, options: PaginateOptions = {}): AsyncGenerator<Page<T>> {
+        const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZES[this.pagination];
+        let cursor = options.startCursor;
+
+        while (true) {
+            const url = this.buildPageUrl(path, params, pageSize, cursor);
+            const response = await this.request('GET', url);
+            const body = await response.json();
+
+            const items = (Array.isArray(body) ? body : ApiClient.pluck(body, options.itemsKey)) as T[] || [];
+            const nextCursor = this.nextPageCursor(response.headers, body, items.length);
+            const totalHeader = response.headers.get('x-total');
+            const total = typeof body?.total === 'number' ? body.total : totalHeader ? Number(totalHeader) : undefined;
+
+            yield { items, cursor, nextCursor, total };
+
+            if (!nextCursor || items.length === 0) return;
+            cursor = nextCursor;
         }
+    }
 
-        const response = await fetch(url.toString(), {
-            method: 'GET',
-            headers: this.headers,
+    /**
+     * Collects up to `maxItems` items across pages and returns an opaque cursor
+     * that resumes exactly where the result was cut off.
+     */
+    async collect<T>(path: string, params: Record<string, string> = {}, options: CollectOptions = {}): Promise<CollectResult<T>> {
+        const state: CursorState = options.cursor
+            ? ApiClient.decodeCursor(options.cursor)
+            : {
+                page: options.startCursor,
+                offset: 0,
+                pageSize: options.pageSize ?? Math.min(options.maxItems ?? Infinity, DEFAULT_PAGE_SIZES[this.pagination]),
+            };
+        const maxItems = options.maxItems ?? Infinity;
+        const items: T[] = [];
+        let total: number | undefined;
+        let skip = state.offset;
+
+        const pages = this.paginate<T>(path, params, {
+            itemsKey: options.itemsKey,
+            pageSize: state.pageSize,
+            startCursor: state.page,
         });
 
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.status} ${response.statusText} - ${await response.text()}`);
+        for await (const page of pages) {
+            total = page.total;
+            const pageItems = page.items.slice(skip);
+            const room = maxItems - items.length;
+
+            if (pageItems.length > room) {
+                items.push(...pageItems.slice(0, room));
+                const nextCursor = ApiClient.encodeCursor({ page: page.cursor, offset: skip + room, pageSize: state.pageSize });
+                return { items, nextCursor, total };
+            }
+
+            items.push(...pageItems);
+            skip = 0;
+
+            if (items.length >= maxItems) {
+                const nextCursor = page.nextCursor
+                    ? ApiClient.encodeCursor({ page: page.nextCursor, offset: 0, pageSize: state.pageSize })
+                    : undefined;
+                return { items, nextCursor, total };
+            }
         }
 
-        return response.json() as Promise<T>;
+        return { items, total };
     }
 
-    async getText(path: string, params?: Record<string, string>): Promise<string> {
+    /**
+     * Fetches every item of a list endpoint.
+     */
+    async getAll<T>(path: string, params: Record<string, string> = {}, options: PaginateOptions = {}): Promise<T[]> {
+        const { items } = await this.collect<T>(path, params, options);
+        return items;
+    }
+
+    private buildPageUrl(path: string, params: Record<string, string>, pageSize: number, cursor?: string): string {
+        // GitLab keyset pagination hands out complete next-page URLs
+        if (cursor && cursor.startsWith(`${this.baseUrl}/`)) return cursor;
+
+        const pageParams: Record<string, string> = { ...params };
+        switch (this.pagination) {
+            case 'gitlab':
+                pageParams.per_page = String(pageSize);
+                if (cursor) pageParams.page = cursor;
+                break;
+            case 'jira':
+                pageParams.maxResults = String(pageSize);
+                if (cursor && /^\d+$/.test(cursor)) pageParams.startAt = cursor;
+                else if (cursor) pageParams.nextPageToken = cursor;
+                break;
+            case 'figma':
+                pageParams.page_size = String(pageSize);
+                if (cursor) pageParams.after = cursor;
+                break;
+        }
+        return this.buildUrl(path, pageParams);
+    }
+
+    private nextPageCursor(headers: Headers, body: any, itemCount: number): string | undefined {
+        switch (this.pagination) {
+            case 'gitlab': {
+                const nextPage = headers.get('x-next-page');
+                if (nextPage) return nextPage;
+                const link = headers.get('link');
+                const next = link?.split(',').find(part => /rel="next"/.test(part));
+                return next?.match(/<([^>]+)>/)?.[1];
+            }
+            case 'jira': {
+                if (body?.isLast === true) return undefined;
+                if (body?.nextPageToken) return body.nextPageToken;
+                if (typeof body?.startAt === 'number' && typeof body?.total === 'number') {
+                    const next = body.startAt + itemCount;
+                    return next < body.total ? String(next) : undefined;
+                }
+                return undefined;
+            }
+            case 'figma': {
+                const after = body?.meta?.cursor?.after ?? body?.cursor?.after ?? body?.pagination?.next_page;
+                return after !== undefined && after !== null ? String(after) : undefined;
+            }
+        }
+    }
+
+    private static pluck(body: any, itemsKey?: string): unknown {
+        if (!itemsKey) return undefined;
+        return itemsKey.split('.').reduce((value, key) => value?.[key], body);
+    }
+
+    private static encodeCursor(state: CursorState): string {
+        return Buffer.from(JSON.stringify(state)).toString('base64url');
+    }
+
+    private static decodeCursor(cursor: string): CursorState {
+        try {
+            const state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+            if (typeof state.offset === 'number' && typeof state.pageSize === 'number') return state;
+        } catch (e) {
+            // Fall through to the error below
+        }
+        throw new Error(`Invalid pagination cursor: ${cursor}`);
+    }
+
+    private buildUrl(path: string, params?: Record<string, string>): string {
         const url = new URL(`${this.baseUrl}${path}`);
         if (params) {
             Object.entries(params).forEach(([key, value]) => {
                 if (value) url.searchParams.append(key, value);
             });
         }
+        return url.toString();
+    }
 
-        const response = await fetch(url.toString(), {
-            method: 'GET',
-            headers: this.headers,
-        });
+    /**
+     * Sends a request, serving GETs from the response cache when a cache rule
+     * matches and revalidating stale entries with ETag/Last-Modified.
+     */
+    private async request(method: string, url: string, body?: any): Promise<Response> {
+        const ttlMs = method === 'GET' ? this.cacheTtl(url) : undefined;
+        if (ttlMs === undefined) return this.send(method, url, body);
 
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.status} ${response.statusText} - ${await response.text()}`);
+        const key = `${this.cacheNamespace}:${url}`;
+        const cached = httpCache.get(key);
+        if (cached && httpCache.isFresh(cached)) {
+            httpCache.recordHit();
+            return HttpCache.toResponse(cached);
         }
+        httpCache.recordMiss();
 
-        return response.text();
+        const response = await this.send(method, url, undefined, cached ? HttpCache.validators(cached) : undefined);
+        if (response.status === 304 && cached) {
+            httpCache.refresh(cached, ttlMs);
+            return HttpCache.toResponse(cached);
+        }
+
+        const entry = await httpCache.store(key, url, this.provider, response, ttlMs);
+        return HttpCache.toResponse(entry);
     }
 
-    async post<T>(path: string, body: any): Promise<T> {
-        const response = await fetch(`${this.baseUrl}${path}`, {
-            method: 'POST',
+    private cacheTtl(url: string): number | undefined {
+        if (this.cacheRules.length === 0) return undefined;
+        const endpoint = this.endpointOf(url);
+        return this.cacheRules.find(rule => rule.pattern.test(endpoint))?.ttlMs;
+    }
+
+    /**
+     * Path of a URL relative to the API base URL, without query string.
+     */
+    private endpointOf(url: string): string {
+        const basePath = new URL(this.baseUrl).pathname.replace(/\/$/, '');
+        return new URL(url).pathname.substring(basePath.length) || '/';
+    }
+
+    /**
+     * Sends a request through the shared host budget, retrying throttled and
+     * transient failures with exponential backoff.
+     */
+    private async send(method: string, url: string, body?: any, conditionalHeaders?: Record<string, string>): Promise<Response> {
+        const init: RequestInit = {
+            method,
             headers: {
-                'Content-Type': 'application/json',
+                ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
                 ...this.headers,
+                ...conditionalHeaders,
             },
-            body: JSON.stringify(body),
-        });
+            body: body === undefined ? undefined : JSON.stringify(body),
+        };
+        // Writes are only replayed when the server explicitly refused them (429),
+        // otherwise a retry could create the same issue twice.
+        const idempotent = method === 'GET' || method === 'PUT';
 
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.status} ${response.statusText} - ${await response.text()}`);
+        if (config.API_MODE === 'replay') {
+            const response = fixtureStore.replay(method, url, body);
+            if (response.ok) return response;
+            throw await this.toApiError(method, url, response);
         }
 
-        return response.json() as Promise<T>;
-    }
+        const provider = this.provider ?? 'other';
+        for (let attempt = 0; ; attempt++) {
+            await rateLimiter.acquire(this.host);
 
-    async put<T>(path: string, body: any): Promise<T> {
-        const response = await fetch(`${this.baseUrl}${path}`, {
-            method: 'PUT',
-            headers: {
-                'Content-Type': 'application/json',
-                ...this.headers,
-            },
-            body: JSON.stringify(body),
-        });
+            let response: Response;
+            const stopTimer = metrics.upstreamDuration.startTimer({ provider });
+            try {
+                response = await fetch(url, init);
+            } catch (error: any) {
+                stopTimer();
+                metrics.upstreamRequests.inc({ provider, method, status: 'network_error' });
+                if (!idempotent || attempt >= this.maxRetries) throw error;
+                metrics.upstreamRetries.inc({ provider });
+                const delay = this.backoffDelay(attempt);
+                console.error(`Network error on ${method} ${url} (${error.message}), retrying in ${delay}ms`);
+                await sleep(delay);
+                continue;
+            }
+
+            stopTimer();
+            metrics.upstreamRequests.inc({ provider, method, status: String(response.status) });
+            if (response.status === 429) metrics.upstreamRateLimited.inc({ provider });
+            rateLimiter.update(this.host, response.headers);
+
+            if (response.ok || (response.status === 304 && conditionalHeaders)) {
+                return config.API_MODE === 'record' ? fixtureStore.record(method, url, body, response) : response;
+            }
 
-        if (!response.ok) {
-            throw new Error(`API Error: ${response.status} ${response.statusText} - ${await response.text()}`);
+            const retryable = RETRYABLE_STATUSES.has(response.status) && (idempotent || response.status === 429);
+            if (retryable && attempt < this.maxRetries) {
+                const retryAfter = RateLimiter.parseRetryAfter(response.headers.get('retry-after'));
+                if (retryAfter !== undefined) {
+                    rateLimiter.block(this.host, Date.now() + retryAfter);
+                }
+                const delay = Math.min(retryAfter ?? this.backoffDelay(attempt), this.retryMaxDelayMs);
+                console.error(`${method} ${url} returned ${response.status}, retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxRetries})`);
+                metrics.upstreamRetries.inc({ provider });
+                await response.body?.cancel();
+                await sleep(delay);
+                continue;
+            }
+
+            if (config.API_MODE === 'record') {
+                response = await fixtureStore.record(method, url, body, response);
+            }
+            throw await this.toApiError(method, url, response);
         }
+    }
 
-        return response.json() as Promise<T>;
+    private async toApiError(method: string, url: string, response: Response): Promise<ApiError> {
+        const text = await response.text();
+        let body: unknown = text;
+        try {
+            body = JSON.parse(text);
+        } catch (e) {
+            // Keep the raw text
+        }
+
+        return createApiError({
+            status: response.status,
+            statusText: response.statusText,
+            provider: this.provider,
+            method,
+            endpoint: this.endpointOf(url),
+            body,
+            retryAfterMs: RateLimiter.parseRetryAfter(response.headers.get('retry-after')),
+        });
+    }
+
+    /**
+     * Exponential backoff with full jitter.
+     */
+    private backoffDelay(attempt: number): number {
+        const cap = Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * 2 ** attempt);
+        return Math.round(Math.random() * cap);
     }
 }
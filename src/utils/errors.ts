@@ -0,0 +1,184 @@
+export type Provider = 'gitlab' | 'jira' | 'figma';
+
+export const PROVIDER_NAMES: Record<Provider, string> = {
+    gitlab: 'GitLab',
+    jira: 'Jira',
+    figma: 'Figma',
+};
+
+export interface ApiErrorDetails {
+    status: number;
+    statusText: string;
+    provider?: Provider;
+    method: string;
+    endpoint: string; // Path relative to the API base URL, without query string
+    body: unknown; // Parsed JSON body, or raw text when the body is not JSON
+    retryAfterMs?: number;
+}
+
+/**
+ * Base class for non-2xx responses from an upstream API.
+ */
+export class ApiError extends Error {
+    readonly status: number;
+    readonly statusText: string;
+    readonly provider?: Provider;
+    readonly method: string;
+    readonly endpoint: string;
+    readonly body: unknown;
+
+    constructor(details: ApiErrorDetails) {
+        const source = details.provider ? PROVIDER_NAMES[details.provider] : 'API';
+        super(`${source} ${details.status} ${details.statusText} on ${details.method} ${details.endpoint}`);
+        this.name = new.target.name;
+        this.status = details.status;
+        this.statusText = details.statusText;
+        this.provider = details.provider;
+        this.method = details.method;
+        this.endpoint = details.endpoint;
+        this.body = details.body;
+    }
+
+    get providerName(): string {
+        return this.provider ? PROVIDER_NAMES[this.provider] : 'The upstream API';
+    }
+
+    /**
+     * Human-readable explanation with a hint on how to fix it.
+     */
+    describe(): string {
+        const detail = upstreamMessage(this.body);
+        return `${this.providerName} returned ${this.status} ${this.statusText} for ${this.endpoint}${detail ? `: ${detail}` : '.'}`;
+    }
+}
+
+/** 401: the token is missing, invalid or expired. */
+export class AuthenticationError extends ApiError {
+    describe(): string {
+        return `${this.providerName} rejected the credentials (401). Check that the configured token is valid and has not expired.`;
+    }
+}
+
+/** 403: the token is valid but lacks access or scopes. */
+export class PermissionError extends ApiError {
+    describe(): string {
+        const body = this.body as any;
+        if (body?.error === 'insufficient_scope') {
+            return `The ${this.providerName} token lacks the required scope${body.scope ? ` (${body.scope})` : ''} for ${this.endpoint}. Create a token with that scope.`;
+        }
+        const detail = upstreamMessage(this.body);
+        return `The ${this.providerName} token is not permitted to ${this.method} ${this.endpoint}${detail ? `: ${detail}` : '.'}`;
+    }
+}
+
+/** 404: the object does not exist, or is invisible to the token. */
+export class NotFoundError extends ApiError {
+    describe(): string {
+        return `${this.endpoint} was not found on ${this.providerName}. Check the ID, key or path; private objects also return 404 when the token cannot see them.`;
+    }
+}
+
+/** 429: still throttled after exhausting retries. */
+export class RateLimitedError extends ApiError {
+    readonly retryAfterMs?: number;
+
+    constructor(details: ApiErrorDetails) {
+        super(details);
+        this.retryAfterMs = details.retryAfterMs;
+    }
+
+    describe(): string {
+        const wait = this.retryAfterMs !== undefined ? ` Retry after ${Math.ceil(this.retryAfterMs / 1000)}s.` : ' Try again later.';
+        return `${this.providerName} rate limit exceeded.${wait}`;
+    }
+}
+
+/** 400/409/422: the request itself was rejected. */
+export class ValidationError extends ApiError {
+    describe(): string {
+        const detail = upstreamMessage(this.body);
+        return `${this.providerName} rejected the request${detail ? `: ${detail}` : ` (${this.status} ${this.statusText}).`}`;
+    }
+}
+
+/** 5xx and anything else unexpected from the provider. */
+export class UpstreamError extends ApiError {
+    describe(): string {
+        return `${this.providerName} failed with ${this.status} ${this.statusText}. The service may be degraded, try again later.`;
+    }
+}
+
+/**
+ * Raised before calling a provider whose credentials are not configured.
+ */
+export class ConfigurationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigurationError';
+    }
+}
+
+/**
+ * Raised when the authenticated caller may not use a tool or read an object.
+ */
+export class AccessDeniedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AccessDeniedError';
+    }
+}
+
+/**
+ * Maps a response status to the matching ApiError subclass.
+ */
+export function createApiError(details: ApiErrorDetails): ApiError {
+    switch (details.status) {
+        case 401:
+            return new AuthenticationError(details);
+        case 403:
+            return new PermissionError(details);
+        case 404:
+            return new NotFoundError(details);
+        case 429:
+            return new RateLimitedError(details);
+        case 400:
+        case 409:
+        case 422:
+            return new ValidationError(details);
+        default:
+            return new UpstreamError(details);
+    }
+}
+
+/**
+ * Extracts the provider's own error text from a response body
+ * (Jira `errorMessages`/`errors`, GitLab `message`/`error`, Figma `err`).
+ */
+function upstreamMessage(body: unknown): string | undefined {
+    if (typeof body === 'string') {
+        const text = body.trim();
+        return text && !text.startsWith('<') ? text.slice(0, 300) : undefined;
+    }
+    if (!body || typeof body !== 'object') return undefined;
+
+    const data = body as any;
+    const parts: string[] = [];
+
+    if (Array.isArray(data.errorMessages)) parts.push(...data.errorMessages);
+    if (data.errors && typeof data.errors === 'object') {
+        for (const [field, message] of Object.entries(data.errors)) {
+            parts.push(`${field}: ${message}`);
+        }
+    }
+    if (typeof data.message === 'string') parts.push(data.message);
+    if (data.message && typeof data.message === 'object') {
+        for (const [field, messages] of Object.entries(data.message)) {
+            parts.push(`${field}: ${[].concat(messages as any).join(', ')}`);
+        }
+    }
+    if (typeof data.error_description === 'string') parts.push(data.error_description);
+    else if (typeof data.error === 'string') parts.push(data.error);
+    if (typeof data.err === 'string') parts.push(data.err);
+
+    return parts.length > 0 ? parts.join('; ') : undefined;
+}
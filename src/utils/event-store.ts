@@ -0,0 +1,48 @@
+import { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Bounded in-memory history of the messages sent on a session's SSE streams,
+ * so a client that reconnects with Last-Event-ID receives what it missed.
+ * The oldest events are dropped once `maxEvents` is reached.
+ */
+export class InMemoryEventStore implements EventStore {
+    private events: Map<string, { streamId: string; message: JSONRPCMessage }> = new Map(); // Insertion order is send order
+    private sequence = 0;
+
+    constructor(private maxEvents: number) {}
+
+    async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+        const eventId = `${streamId}_${++this.sequence}`;
+        this.events.set(eventId, { streamId, message });
+
+        for (const oldest of this.events.keys()) {
+            if (this.events.size <= this.maxEvents) break;
+            this.events.delete(oldest);
+        }
+        return eventId;
+    }
+
+    /**
+     * Unknown or already evicted event IDs yield undefined, which the
+     * transport answers with 400 so the client starts a fresh stream.
+     */
+    async getStreamIdForEventId(eventId: string): Promise<string | undefined> {
+        return this.events.get(eventId)?.streamId;
+    }
+
+    async replayEventsAfter(lastEventId: string, { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }): Promise<string> {
+        const last = this.events.get(lastEventId);
+        if (!last) return '';
+
+        let found = false;
+        for (const [eventId, event] of this.events) {
+            if (eventId === lastEventId) {
+                found = true;
+            } else if (found && event.streamId === last.streamId) {
+                await send(eventId, event.message);
+            }
+        }
+        return last.streamId;
+    }
+}
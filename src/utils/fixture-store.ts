@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { config } from '../config.js';
+import { isSecretName, REDACTED, redactSecrets } from './redact.js';
+
+// Response headers that are meaningless or sensitive in a fixture
+const DROPPED_HEADERS = new Set(['set-cookie', 'date', 'connection', 'keep-alive', 'transfer-encoding', 'content-encoding', 'content-length']);
+
+export interface Fixture {
+    request: {
+        method: string;
+        url: string;
+        body?: unknown;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        headers: Record<string, string>;
+        encoding: 'json' | 'text';
+        body: unknown;
+    };
+    recordedAt: string;
+}
+
+/**
+ * Raised in replay mode when a request has no recorded fixture.
+ */
+export class ReplayMissError extends Error {
+    constructor(method: string, url: string, fixturePath: string) {
+        super(`No recorded fixture for ${method} ${url} (expected ${fixturePath}). Record it with API_MODE=record.`);
+        this.name = 'ReplayMissError';
+    }
+}
+
+/**
+ * Saves and serves upstream request/response pairs so the server can run
+ * without live Figma, Jira or GitLab access.
+ */
+export class FixtureStore {
+    constructor(private dir: string) {}
+
+    /**
+     * Persists a response and returns an unread copy of it for the caller.
+     */
+    async record(method: string, url: string, body: unknown, response: Response): Promise<Response> {
+        const text = await response.text();
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+            if (!DROPPED_HEADERS.has(name)) headers[name] = value;
+        });
+
+        let encoding: 'json' | 'text' = 'text';
+        let storedBody: unknown = redactSecrets(text);
+        if ((headers['content-type'] || '').includes('json')) {
+            try {
+                storedBody = JSON.parse(storedBody as string);
+                encoding = 'json';
+            } catch (e) {
+                // Store as text
+            }
+        }
+
+        const fixture: Fixture = {
+            request: {
+                method,
+                url: FixtureStore.normalizeUrl(url),
+                ...(body === undefined ? {} : { body: JSON.parse(redactSecrets(JSON.stringify(body))) }),
+            },
+            response: {
+                status: response.status,
+                statusText: response.statusText,
+                headers,
+                encoding,
+                body: storedBody,
+            },
+            recordedAt: new Date().toISOString(),
+        };
+
+        const filePath = this.fixturePath(method, url, body);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2));
+
+        return new Response(text, { status: response.status, statusText: response.statusText, headers: response.headers });
+    }
+
+    /**
+     * Serves a recorded response, failing loudly when none matches.
+     */
+    replay(method: string, url: string, body: unknown): Response {
+        const filePath = this.fixturePath(method, url, body);
+        if (!fs.existsSync(filePath)) {
+            const error = new ReplayMissError(method, FixtureStore.normalizeUrl(url), filePath);
+            console.error(error.message);
+            throw error;
+        }
+
+        const fixture: Fixture = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const { response } = fixture;
+        const text = response.encoding === 'json' ? JSON.stringify(response.body) : String(response.body);
+        // Response() rejects a body for null-body statuses such as 304
+        const nullBody = response.status === 204 || response.status === 304;
+        return new Response(nullBody ? null : text, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+        });
+    }
+
+    /**
+     * Fixture file for a request: <dir>/<host>/<METHOD>-<path slug>-<hash>.json
+     */
+    private fixturePath(method: string, url: string, body: unknown): string {
+        const normalized = FixtureStore.normalizeUrl(url);
+        const parsed = new URL(normalized);
+        const bodyKey = body === undefined ? '' : redactSecrets(JSON.stringify(body));
+        const hash = createHash('sha256').update(`${method} ${normalized} ${bodyKey}`).digest('hex').slice(0, 12);
+        const slug = decodeURIComponent(parsed.pathname)
+            .replace(/[^a-zA-Z0-9]+/g, '-')
+            .replace(/^-|-$/g, '')
+            .slice(0, 80);
+        return path.join(this.dir, parsed.host.replace(/[^a-zA-Z0-9.-]/g, '_'), `${method}-${slug}-${hash}.json`);
+    }
+
+    /**
+     * Sorts query parameters and redacts credential-bearing ones so that
+     * keys are stable and contain no secrets.
+     */
+    static normalizeUrl(url: string): string {
+        const parsed = new URL(url);
+        const params = Array.from(parsed.searchParams.entries())
+            .map(([key, value]): [string, string] => [key, isSecretName(key) ? REDACTED : value])
+            .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv));
+        parsed.search = new URLSearchParams(params).toString();
+        return parsed.toString();
+    }
+}
+
+export const fixtureStore = new FixtureStore(config.API_FIXTURES_DIR);
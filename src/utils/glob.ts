@@ -0,0 +1,32 @@
+/**
+ * Compiles a glob into a RegExp. `**` matches across `/`, `*` and `?` stay
+ * within a path segment. Patterns without `/` work for plain names too.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // "**/" also matches zero directories
+                const slash = glob[i + 2] === '/';
+                pattern += slash ? '(?:.*/)?' : '.*';
+                i += slash ? 2 : 1;
+            } else {
+                pattern += '[^/]*';
+            }
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else {
+            pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * True when the value matches any of the globs.
+ */
+export function matchesAny(value: string, globs: string[]): boolean {
+    return globs.some(glob => globToRegExp(glob).test(value));
+}
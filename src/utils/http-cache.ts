@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { config } from '../config.js';
+import { Provider } from './errors.js';
+
+// Response headers worth keeping: validators plus what pagination needs
+const STORED_HEADERS = ['content-type', 'etag', 'last-modified', 'link', 'x-next-page', 'x-total'];
+
+export interface CacheRule {
+    pattern: RegExp; // Matched against the endpoint path relative to the API base URL
+    ttlMs: number;
+}
+
+export interface CachedResponse {
+    key: string;
+    url: string;
+    provider?: Provider;
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+    storedAt: number;
+    expiresAt: number;
+}
+
+export interface CacheStats {
+    entries: number;
+    bytes: number;
+    maxBytes: number;
+    hits: number;
+    misses: number;
+    revalidated: number;
+    diskDir?: string;
+}
+
+/**
+ * Size-bounded LRU of upstream GET responses with an optional on-disk layer.
+ * Stale entries are kept so their ETag/Last-Modified can be used for revalidation.
+ */
+export class HttpCache {
+    private entries: Map<string, CachedResponse> = new Map(); // Insertion order doubles as LRU order
+    private bytes = 0;
+    private hits = 0;
+    private misses = 0;
+    private revalidated = 0;
+
+    constructor(private maxBytes: number, private diskDir?: string) {
+        if (diskDir) {
+            try {
+                fs.mkdirSync(diskDir, { recursive: true });
+            } catch (error) {
+                console.error(`Failed to create API cache directory ${diskDir}:`, error);
+                this.diskDir = undefined;
+            }
+        }
+    }
+
+    /**
+     * Looks up an entry, falling back to disk. Returns stale entries too.
+     */
+    get(key: string): CachedResponse | undefined {
+        let entry = this.entries.get(key);
+        if (entry) {
+            // Move to the most recently used position
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        } else {
+            entry = this.readFromDisk(key);
+            if (entry) this.remember(entry);
+        }
+        return entry;
+    }
+
+    isFresh(entry: CachedResponse): boolean {
+        return entry.expiresAt > Date.now();
+    }
+
+    /**
+     * Stores a successful response and returns the cached entry.
+     */
+    async store(key: string, url: string, provider: Provider | undefined, response: Response, ttlMs: number): Promise<CachedResponse> {
+        const headers: Record<string, string> = {};
+        for (const name of STORED_HEADERS) {
+            const value = response.headers.get(name);
+            if (value !== null) headers[name] = value;
+        }
+
+        const now = Date.now();
+        const entry: CachedResponse = {
+            key,
+            url,
+            provider,
+            status: response.status,
+            headers,
+            body: await response.text(),
+            storedAt: now,
+            expiresAt: now + ttlMs,
+        };
+
+        this.remember(entry);
+        this.writeToDisk(entry);
+        return entry;
+    }
+
+    /**
+     * Extends an entry after the server confirmed it with 304 Not Modified.
+     */
+    refresh(entry: CachedResponse, ttlMs: number) {
+        entry.expiresAt = Date.now() + ttlMs;
+        this.revalidated++;
+        this.writeToDisk(entry);
+    }
+
+    recordHit() {
+        this.hits++;
+    }
+
+    recordMiss() {
+        this.misses++;
+    }
+
+    /**
+     * Removes all entries, or only those of one provider. Returns the number removed.
+     */
+    clear(provider?: Provider): number {
+        let removed = 0;
+        for (const entry of Array.from(this.entries.values())) {
+            if (!provider || entry.provider === provider) {
+                this.forget(entry.key);
+                removed++;
+            }
+        }
+
+        if (this.diskDir) {
+            for (const file of fs.readdirSync(this.diskDir)) {
+                if (!file.endsWith('.json')) continue;
+                const filePath = path.join(this.diskDir, file);
+                if (provider) {
+                    const entry = this.readFile(filePath);
+                    if (entry && entry.provider !== provider) continue;
+                }
+                fs.rmSync(filePath, { force: true });
+            }
+        }
+
+        return removed;
+    }
+
+    stats(): CacheStats {
+        return {
+            entries: this.entries.size,
+            bytes: this.bytes,
+            maxBytes: this.maxBytes,
+            hits: this.hits,
+            misses: this.misses,
+            revalidated: this.revalidated,
+            diskDir: this.diskDir,
+        };
+    }
+
+    /**
+     * Entries currently held in memory, most recently used last.
+     */
+    list(): CachedResponse[] {
+        return Array.from(this.entries.values());
+    }
+
+    /**
+     * Conditional request headers for revalidating an entry.
+     */
+    static validators(entry: CachedResponse): Record<string, string> {
+        const headers: Record<string, string> = {};
+        if (entry.headers['etag']) headers['If-None-Match'] = entry.headers['etag'];
+        if (entry.headers['last-modified']) headers['If-Modified-Since'] = entry.headers['last-modified'];
+        return headers;
+    }
+
+    static toResponse(entry: CachedResponse): Response {
+        return new Response(entry.body, { status: entry.status, headers: entry.headers });
+    }
+
+    private remember(entry: CachedResponse) {
+        this.forget(entry.key);
+        const size = HttpCache.sizeOf(entry);
+        if (size > this.maxBytes) return;
+
+        this.entries.set(entry.key, entry);
+        this.bytes += size;
+
+        // Evict least recently used entries until we fit again
+        for (const oldest of this.entries.values()) {
+            if (this.bytes <= this.maxBytes) break;
+            this.forget(oldest.key);
+        }
+    }
+
+    private forget(key: string) {
+        const existing = this.entries.get(key);
+        if (existing) {
+            this.bytes -= HttpCache.sizeOf(existing);
+            this.entries.delete(key);
+        }
+    }
+
+    // Counted in UTF-8 bytes, as maxBytes is
+    private static sizeOf(entry: CachedResponse): number {
+        return Buffer.byteLength(entry.body) + Buffer.byteLength(entry.url);
+    }
+
+    private diskPath(key: string): string {
+        return path.join(this.diskDir!, `${createHash('sha256').update(key).digest('hex')}.json`);
+    }
+
+    private readFromDisk(key: string): CachedResponse | undefined {
+        if (!this.diskDir) return undefined;
+        const entry = this.readFile(this.diskPath(key));
+        return entry?.key === key ? entry : undefined;
+    }
+
+    private readFile(filePath: string): CachedResponse | undefined {
+        try {
+            if (!fs.existsSync(filePath)) return undefined;
+            return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        } catch (error) {
+            console.error(`Failed to read API cache entry ${filePath}:`, error);
+            return undefined;
+        }
+    }
+
+    private writeToDisk(entry: CachedResponse) {
+        if (!this.diskDir) return;
+        try {
+            fs.writeFileSync(this.diskPath(entry.key), JSON.stringify(entry));
+        } catch (error) {
+            console.error('Failed to write API cache entry:', error);
+        }
+    }
+}
+
+export const httpCache = new HttpCache(config.API_CACHE_MAX_BYTES, config.API_CACHE_DIR);
@@ -0,0 +1,146 @@
+type Labels = Record<string, string>;
+
+// Seconds; spans quick cache hits up to long crawls
+const DEFAULT_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels): string => {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+    return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+};
+
+// Stable key for a label set, independent of property order
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+interface Metric {
+    name: string;
+    help: string;
+    type: 'counter' | 'gauge' | 'histogram';
+    render(): string[];
+}
+
+export class Counter implements Metric {
+    readonly type = 'counter';
+    private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+    constructor(readonly name: string, readonly help: string) {}
+
+    inc(labels: Labels = {}, amount: number = 1) {
+        const key = labelKey(labels);
+        const entry = this.values.get(key) ?? { labels, value: 0 };
+        entry.value += amount;
+        this.values.set(key, entry);
+    }
+
+    render(): string[] {
+        return Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+    }
+}
+
+export class Gauge implements Metric {
+    readonly type = 'gauge';
+    private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+    /**
+     * `collect` is called on every scrape, for values that are cheaper to read than to track.
+     */
+    constructor(readonly name: string, readonly help: string, private collect?: () => { labels?: Labels; value: number }[]) {}
+
+    set(labels: Labels, value: number) {
+        this.values.set(labelKey(labels), { labels, value });
+    }
+
+    render(): string[] {
+        const samples = this.collect
+            ? this.collect().map(({ labels = {}, value }) => ({ labels, value }))
+            : Array.from(this.values.values());
+        return samples.map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+    }
+}
+
+export class Histogram implements Metric {
+    readonly type = 'histogram';
+    private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+    constructor(readonly name: string, readonly help: string, private buckets: number[] = DEFAULT_BUCKETS) {}
+
+    observe(labels: Labels, value: number) {
+        const key = labelKey(labels);
+        let entry = this.series.get(key);
+        if (!entry) {
+            entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, entry);
+        }
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) entry!.counts[i]++;
+        });
+        entry.sum += value;
+        entry.count++;
+    }
+
+    /**
+     * Starts a timer; calling the returned function records the elapsed seconds.
+     */
+    startTimer(labels: Labels): (extraLabels?: Labels) => void {
+        const start = process.hrtime.bigint();
+        return (extraLabels = {}) => this.observe({ ...labels, ...extraLabels }, Number(process.hrtime.bigint() - start) / 1e9);
+    }
+
+    render(): string[] {
+        const lines: string[] = [];
+        for (const { labels, counts, sum, count } of this.series.values()) {
+            this.buckets.forEach((bound, i) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Minimal Prometheus registry rendering the text exposition format.
+ */
+export class MetricsRegistry {
+    private metrics: Map<string, Metric> = new Map();
+
+    register<T extends Metric>(metric: T): T {
+        if (this.metrics.has(metric.name)) throw new Error(`Metric ${metric.name} is already registered`);
+        this.metrics.set(metric.name, metric);
+        return metric;
+    }
+
+    render(): string {
+        const lines: string[] = [];
+        for (const metric of this.metrics.values()) {
+            lines.push(`# HELP ${metric.name} ${metric.help}`);
+            lines.push(`# TYPE ${metric.name} ${metric.type}`);
+            try {
+                lines.push(...metric.render());
+            } catch (error) {
+                console.error(`Failed to collect metric ${metric.name}:`, error);
+            }
+        }
+        return `${lines.join('\n')}\n`;
+    }
+}
+
+export const registry = new MetricsRegistry();
+
+// Metrics recorded by the shared utilities and services. Gauges whose value
+// lives elsewhere (index size, sessions) are registered where that state is.
+export const metrics = {
+    toolCalls: registry.register(new Counter('pm7_tool_calls_total', 'MCP tool calls by tool and outcome (success or error)')),
+    toolDuration: registry.register(new Histogram('pm7_tool_call_duration_seconds', 'MCP tool call latency by tool')),
+    upstreamRequests: registry.register(new Counter('pm7_upstream_requests_total', 'Upstream HTTP requests by provider, method and status (or "network_error")')),
+    upstreamDuration: registry.register(new Histogram('pm7_upstream_request_duration_seconds', 'Upstream HTTP request latency by provider')),
+    upstreamRateLimited: registry.register(new Counter('pm7_upstream_rate_limited_total', 'Upstream 429 responses by provider')),
+    upstreamRetries: registry.register(new Counter('pm7_upstream_retries_total', 'Retried upstream requests by provider')),
+    upstreamThrottleWaits: registry.register(new Counter('pm7_upstream_throttle_waits_total', 'Requests delayed by the local per-host rate limiter, by host')),
+    crawlDuration: registry.register(new Gauge('pm7_crawl_duration_seconds', 'Duration of the last crawl by project')),
+    crawlTimestamp: registry.register(new Gauge('pm7_crawl_last_completed_timestamp_seconds', 'Unix time the last crawl of a project completed')),
+};
@@ -0,0 +1,29 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export type ProgressCallback = (progress: number, total: number | undefined, message: string) => void;
+
+// Minimum time between two progress notifications of one request
+const MIN_INTERVAL_MS = 500;
+
+/**
+ * Returns a callback that sends `notifications/progress` for the current tool
+ * call, or undefined when the client did not ask for progress (no progressToken).
+ * Updates are throttled; the final one (progress === total) is always sent.
+ */
+export function progressReporter(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ProgressCallback | undefined {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) return undefined;
+
+    let lastSent = 0;
+    return (progress, total, message) => {
+        const now = Date.now();
+        if (progress !== total && now - lastSent < MIN_INTERVAL_MS) return;
+        lastSent = now;
+
+        extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, ...(total === undefined ? {} : { total }), message },
+        }).catch(error => console.error('Failed to send progress notification:', error));
+    };
+}
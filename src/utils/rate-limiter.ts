@@ -0,0 +1,95 @@
+import { config } from '../config.js';
+import { metrics } from './metrics.js';
+
+interface HostState {
+    nextSlot: number; // Earliest time the next request may start
+    blockedUntil: number; // Set when the provider tells us the budget is exhausted
+}
+
+export const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Per-host request budget shared by every ApiClient instance, so that
+ * Jira, GitLab and Figma calls made from different tools don't stampede
+ * the same host.
+ */
+export class RateLimiter {
+    private hosts: Map<string, HostState> = new Map();
+    private minIntervalMs: number;
+
+    constructor(requestsPerSecond: number) {
+        this.minIntervalMs = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+    }
+
+    /**
+     * Waits until a request to the given host fits into its budget.
+     */
+    async acquire(host: string) {
+        const state = this.getState(host);
+        const now = Date.now();
+        const slot = Math.max(now, state.nextSlot, state.blockedUntil);
+        state.nextSlot = slot + this.minIntervalMs;
+
+        if (slot > now) {
+            metrics.upstreamThrottleWaits.inc({ host });
+            await sleep(slot - now);
+        }
+    }
+
+    /**
+     * Updates the host budget from provider rate-limit headers.
+     * GitLab sends `RateLimit-*`, Figma and others send `X-RateLimit-*`.
+     */
+    update(host: string, headers: Headers) {
+        const remaining = headers.get('ratelimit-remaining') ?? headers.get('x-ratelimit-remaining');
+        if (remaining === null || Number(remaining) > 0) return;
+
+        const reset = headers.get('ratelimit-reset') ?? headers.get('x-ratelimit-reset');
+        const resetAt = reset ? RateLimiter.parseReset(reset) : Date.now() + 1000;
+        this.block(host, resetAt);
+    }
+
+    /**
+     * Holds back every request to the host until the given timestamp.
+     */
+    block(host: string, until: number) {
+        const state = this.getState(host);
+        state.blockedUntil = Math.max(state.blockedUntil, until);
+        console.error(`Rate limit reached for ${host}, pausing until ${new Date(state.blockedUntil).toISOString()}`);
+    }
+
+    /**
+     * Parses a `Retry-After` header (delta seconds or HTTP date) into a delay in ms.
+     */
+    static parseRetryAfter(value: string | null): number | undefined {
+        if (!value) return undefined;
+
+        const seconds = Number(value);
+        if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+        const date = Date.parse(value);
+        if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+        return undefined;
+    }
+
+    /**
+     * Reset headers are either a Unix timestamp (GitLab) or seconds until reset.
+     */
+    private static parseReset(value: string): number {
+        const seconds = Number(value);
+        if (Number.isNaN(seconds)) return Date.now() + 1000;
+        return seconds > 1_000_000_000 ? seconds * 1000 : Date.now() + seconds * 1000;
+    }
+
+    private getState(host: string): HostState {
+        let state = this.hosts.get(host);
+        if (!state) {
+            state = { nextSlot: 0, blockedUntil: 0 };
+            this.hosts.set(host, state);
+        }
+        return state;
+    }
+}
+
+export const rateLimiter = new RateLimiter(config.API_REQUESTS_PER_SECOND);
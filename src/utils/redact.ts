@@ -0,0 +1,25 @@
+import { config, connections, userCredentials } from '../config.js';
+
+export const REDACTED = '[REDACTED]';
+
+// Parameter and argument names that carry credentials
+const SECRET_NAME_PATTERN = /^(private_token|access_token|token|api_?key|key|secret|password|signature|auth)$/i;
+
+export function isSecretName(name: string): boolean {
+    return SECRET_NAME_PATTERN.test(name);
+}
+
+/**
+ * Replaces every configured credential value that appears in the text.
+ */
+export function redactSecrets(text: string): string {
+    const secrets = [
+        config.FIGMA_ACCESS_TOKEN,
+        config.EMBEDDING_API_KEY,
+        ...connections.gitlab.map(c => c.token),
+        ...connections.jira.map(c => c.token),
+        ...userCredentials.flatMap(user => [user.figma, ...Object.values(user.gitlab), ...Object.values(user.jira).map(jira => jira.token)]),
+    ]
+        .filter((secret): secret is string => !!secret && secret.length >= 8);
+    return secrets.reduce((result, secret) => result.split(secret).join(REDACTED), text);
+}
@@ -0,0 +1,68 @@
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AccessDeniedError, ApiError, ConfigurationError, PROVIDER_NAMES, Provider } from './errors.js';
+import { getCallerMissingCredentials, getGitLabConnection, getJiraConnection } from '../services/connections.js';
+
+export interface ToolHandlerOptions {
+    action: string; // Describes the operation in error messages, e.g. 'fetching GitLab project'
+    provider?: Provider; // Provider whose credentials must be configured (for the `connection` argument, if any)
+}
+
+/**
+ * Throws a ConfigurationError when the connection is unknown or the
+ * provider's credentials are missing (for the authenticated caller, if any).
+ */
+export function assertProviderConfigured(provider: Provider, connection?: string, authInfo?: AuthInfo) {
+    if (provider === 'gitlab') connection = getGitLabConnection(connection).name;
+    if (provider === 'jira') connection = getJiraConnection(connection).name;
+
+    const missing = getCallerMissingCredentials(provider, connection, authInfo);
+    if (missing.length > 0) {
+        const target = connection ? `${PROVIDER_NAMES[provider]} connection "${connection}"` : PROVIDER_NAMES[provider];
+        throw new ConfigurationError(`${target} credentials not configured (missing ${missing.join(', ')}).`);
+    }
+}
+
+/**
+ * Converts any thrown error into a consistent MCP error result.
+ */
+export function toErrorResult(action: string, error: unknown): CallToolResult {
+    let text: string;
+    if (error instanceof ApiError) {
+        text = `Error ${action}: ${error.describe()}`;
+    } else if (error instanceof ConfigurationError || error instanceof AccessDeniedError) {
+        text = error.message;
+    } else {
+        text = `Error ${action}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    return {
+        content: [{ type: 'text' as const, text }],
+        isError: true,
+    };
+}
+
+/**
+ * Wraps a tool callback with the credential check and error handling shared by all tools.
+ */
+export function toolHandler<Args extends unknown[]>(
+    options: ToolHandlerOptions,
+    handler: (...args: Args) => Promise<CallToolResult>
+): (...args: Args) => Promise<CallToolResult> {
+    return async (...args: Args) => {
+        try {
+            if (options.provider) {
+                const connection = (args[0] as { connection?: string } | undefined)?.connection;
+                // The request context (with the caller's authInfo) is always the last argument
+                const authInfo = (args[args.length - 1] as { authInfo?: AuthInfo } | undefined)?.authInfo;
+                assertProviderConfigured(options.provider, connection, authInfo);
+            }
+            return await handler(...args);
+        } catch (error) {
+            if (error instanceof ApiError) {
+                console.error(`${error.name} while ${options.action}: ${error.message}`);
+            }
+            return toErrorResult(options.action, error);
+        }
+    };
+}
@@ -0,0 +1,10 @@
+import { CollectResult } from './api-client.js';
+
+/**
+ * Footer for paginated list results telling the LLM how to fetch the next page.
+ */
+export function formatContinuation(result: CollectResult<unknown>): string {
+    const total = result.total !== undefined ? ` of ${result.total}` : '';
+    if (!result.nextCursor) return `\n\nShowing ${result.items.length}${total} (end of results).`;
+    return `\n\nShowing ${result.items.length}${total}. More results available, call again with cursor: ${result.nextCursor}`;
+}